@@ -19,16 +19,74 @@ Store laws with listeners:
 
 A store is a partially applied, existentially quantified lens with a change listener.
 */
-export class Store<S> {
+export class Store<S> implements ReadonlyStore<S> {
   private constructor(
-    private readonly transact: (m: () => void) => void,
-    private readonly listen: (k: () => void) => () => void,
+    private readonly root: Root,
+    private readonly focus: Focus,
     private readonly _get: () => S,
     private readonly _set: (s: S) => void)
   { }
 
-  /** Make the root store (static method) */
-  static init<S>(s0: S): Store<S> {
+  /** Make the root store (static method)
+
+  The equality in the options decides when a value has changed,
+  for the root store and all its substores (default: `Eq.identity`).
+  Sets of values which are equal to the current value are skipped:
+
+      const store = Store.init({a: [1, 2], b: 3}, {eq: Eq.deep})
+      let runs = 0
+      store.on(_ => runs++)
+      store.at('a').set([1, 2])
+      runs // => 0
+      store.at('a').set([2, 1])
+      runs // => 1
+
+  Exceptions thrown by listeners are passed to the error handler in the options,
+  and do not stop the other listeners (default: rethrow asynchronously):
+
+      const errors = []
+      const store = Store.init(1, {on_error: e => errors.push(e)})
+      let last
+      store.on(_ => { throw 'oops' })
+      store.on(x => last = x)
+      store.set(2)
+      last // => 2
+      errors // => ['oops']
+
+  Listeners may set the state, which starts a new round of notification.
+  If this goes on for more than the maximum number of rounds in the options
+  (default: 100), an error is thrown which names the listeners that set
+  the state and shows the last few states:
+
+      const store = Store.init(0, {max_rounds: 10})
+      store.on(function increment(x) { store.set(x + 1) })
+      assert.throws(() => store.set(1), /increment/)
+      store.get() // => 11
+
+  The scheduler in the options decides when listeners are notified after
+  a set, or after a top-level transaction (default: `Scheduler.sync`, right away).
+  With other schedulers many sets are collapsed into one round of notification:
+
+      const scheduler = Scheduler.manual()
+      const store = Store.init(1, {scheduler})
+      let runs = 0
+      store.on(_ => runs++)
+      store.set(2)
+      store.set(3)
+      runs // => 0
+      scheduler.flush()
+      runs // => 1
+
+  */
+  static init<S>(s0: S, options: StoreOptions = {}): Store<S> {
+    /** Equality to decide if values have changed */
+    const eq = options.eq || Eq.identity
+    /** Handler for exceptions from listeners */
+    const on_error = options.on_error || rethrow_async
+    /** Maximum number of notification rounds after a top-level set */
+    const max_rounds = options.max_rounds === undefined ? 100 : options.max_rounds
+    /** Decides when to notify */
+    const scheduler = options.scheduler || Scheduler.sync
     /** Current state */
     let s = s0
     /** Transaction depth, only notify when setting at depth 0 */
@@ -36,28 +94,160 @@ export class Store<S> {
     /** Only notify on transacts that actually did set */
     let pending = false
     /** Listeners */
-    const listeners = ListWithRemove<() => void>()
-    /** Notify listeners if applicable */
+    const listeners = ListenerTree(() => s, eq, on_error)
+    /** Number of notification rounds running */
+    let rounds = 0
+    /** The state at the start of each running round, and the listeners that set it again */
+    let trail = [] as Round[]
+    /** Is a flush scheduled? */
+    let scheduled = false
+    /** Patch operations of the running top-level transaction */
+    let ops = [] as PatchOperation[]
+    /** Label of the first labelled transaction in the running top-level transaction */
+    let label: string | undefined
+    /** The state before the running top-level transaction */
+    let before = s0
+    /** Changes since the listeners were last notified, one per top-level transaction or set */
+    let changes = [] as Change<S>[]
+    /** Listeners to changes */
+    const change_listeners = ListWithRemove<(change: Change<S>) => void>()
+    /** Is a set with a known path running? Then the sets it makes further up are not recorded */
+    let recording = false
+    /** Notify listeners if applicable: right away if they are already being
+    notified (and might have set the state), otherwise when the scheduler says so */
     function notify(): void {
+      if (depth == 0 && pending) {
+        if (rounds > 0) {
+          flush()
+        } else if (!scheduled) {
+          scheduled = true
+          scheduler.schedule(() => {
+            scheduled = false
+            flush()
+          })
+        }
+      }
+    }
+    /** Notify listeners now if applicable */
+    function flush(): void {
       if (depth == 0 && pending) {
         pending = false
-        // must use a transact because listeners might set the state again
-        transact(() => listeners.iter(k => k()))
+        if (rounds >= max_rounds) {
+          throw feedback_loop_error(rounds, trail)
+        }
+        rounds++
+        trail.push({state: s, setters: []})
+        close()
+        const round = changes
+        changes = []
+        // the round may run inside a set with a known path, but the sets made
+        // by the listeners are not part of that set
+        const was_recording = recording
+        recording = false
+        try {
+          round.forEach(change => change_listeners.iter(k => {
+            try {
+              k(change)
+            } catch (e) {
+              on_error(e)
+            }
+          }))
+          // must use a transact because listeners might set the state again
+          transact(listeners.notify)
+        } finally {
+          recording = was_recording
+          rounds--
+          if (rounds == 0) {
+            trail = []
+          }
+        }
+      }
+    }
+    /** End the change of the top-level transaction or set, if it changed anything */
+    function close(): void {
+      if (ops.length > 0 || s !== before) {
+        changes.push({label, before, after: s, patch: ops})
+        ops = []
+        label = undefined
+        before = s
       }
     }
-    function transact(m: () => void): void {
+    /** Run a transaction, rolling back its sets if it throws */
+    function transact(m: () => void, l?: string): void {
+      const s_before = s
+      const pending_before = pending
+      const ops_before = ops.length
+      const label_before = label
+      if (label === undefined) {
+        label = l
+      }
       depth++
-      m()
-      depth--
+      try {
+        m()
+      } catch (e) {
+        s = s_before
+        pending = pending_before
+        ops = ops.slice(0, ops_before)
+        label = label_before
+        throw e
+      } finally {
+        depth--
+      }
+      if (ops.length == ops_before) {
+        // nothing was set, so the label does not describe anything
+        label = label_before
+      }
+      if (depth == 0) {
+        close()
+      }
       notify()
     }
     const set =
       (v: S) => {
-        s = v
-        pending = true
-        notify()
+        if (!eq(s, v)) {
+          const setter = listeners.running()
+          if (setter !== undefined && trail.length > 0) {
+            const setters = trail[trail.length - 1].setters
+            setters.indexOf(setter) == -1 && setters.push(setter)
+          }
+          if (!recording) {
+            ops.push(patch_operation([], s, v))
+          }
+          s = v
+          pending = true
+          if (depth == 0) {
+            close()
+          }
+          notify()
+        }
+      }
+    /** Make a set at a path, recording it as a patch operation */
+    function patch(path: Path | undefined, old: any, value: any, m: () => void): void {
+      if (recording || path === undefined) {
+        m()
+      } else {
+        ops.push(patch_operation(path, old, value))
+        recording = true
+        try {
+          m()
+        } finally {
+          recording = false
+        }
       }
-    return new Store(transact, k => listeners.push(k), () => s, set)
+    }
+    /** Run a transaction, giving the patch operations of its sets to k before the listeners are notified */
+    function capture(m: () => void, k: (captured: PatchOperation[]) => void, l?: string): void {
+      transact(() => {
+        const start = ops.length
+        m()
+        k(ops.slice(start))
+      }, l)
+    }
+    const focus = {parent: null, id: '', get: (s: S) => s, path: []}
+    const on_change = (k: (change: Change<S>) => void) => change_listeners.push(k)
+    const get = () => s
+    const root = {transact, capture, flush, listen: listeners.listen, patch, on_change, get, set, focus, eq}
+    return new Store(root, focus, get, set)
   }
 
   /** Get the current value (which must not be mutated)
@@ -94,7 +284,7 @@ export class Store<S> {
   Returns itself. */
   update<K extends keyof S>(parts: {[k in K]: S[K]}): Store<S> {
     const keys = Object.keys(parts) as K[]
-    this.transact(() => {
+    this.root.transact(() => {
       keys.forEach(k => this.at(k).set(parts[k]))
     })
     return this
@@ -124,12 +314,23 @@ export class Store<S> {
       store.set(3)
       last // => 2
 
-  */
+  Listeners on a substore are only run when its value has changed:
+
+      const store = Store.init({a: 1, b: 2})
+      let runs = 0
+      store.at('a').on(_ => runs++)
+      store.at('b').set(3)
+      runs // => 0
+      store.at('a').set(4)
+      runs // => 1
+
+  Listeners on a store run before the listeners on its substores. */
   on(k: (s: S) => void): () => void {
-    return this.listen(() => k(this.get()))
+    return this.root.listen(this.focus, () => k(this.get()), (k as any).name)
   }
 
-  /** React on a difference in value. Returns the unsubscribe function.
+  /** React on a difference in value, decided by the equality of the root store
+  unless another one is given. Returns the unsubscribe function.
 
         const store = Store.init({a: 0})
         let diffs = 0
@@ -151,14 +352,17 @@ export class Store<S> {
         diffs                        // => 3
         store.modify(x => x)         // no diff: same object
         diffs                        // => 3
-        store.at('a').modify(x => x) // diff: at does not see if the value actually changed
+        store.at('a').modify(x => x) // no diff: the set is skipped since the value is the same
+        diffs                        // => 3
+        store.ondiff(_ => diffs++, Eq.deep)
+        store.set({a: 2})            // diff, but not for the second listener which uses Eq.deep
         diffs                        // => 4
 
   Note: keeps a reference to the last value in memory. */
-  ondiff(k: (new_value: S, old_value: S) => void): () => void {
+  ondiff(k: (new_value: S, old_value: S) => void, eq: Eq<S> = this.root.eq): () => void {
     let old_value = this.get()
     return this.on(new_value => {
-      if (new_value !== old_value) {
+      if (!eq(new_value, old_value)) {
         k(new_value, old_value)
         old_value = new_value
       }
@@ -166,6 +370,58 @@ export class Store<S> {
   }
 
 
+  /** Make a read-only store with a value computed from this store
+
+      const store = Store.init({todos: [{done: false}, {done: true}]})
+      const left = store.at('todos').derive(todos => todos.filter(t => !t.done).length)
+      left.get() // => 1
+      let last
+      left.on(x => last = x)
+      store.at('todos').modify(todos => todos.concat({done: true}))
+      last // => undefined
+      store.at('todos').modify(todos => todos.concat({done: false}))
+      last // => 2
+
+  The function is only run again when the value in this store has changed
+  (by identity), and the listeners only when the computed value has changed
+  (see `ReadonlyStore` for the equality). */
+  derive<T>(f: (s: S) => T, eq: Eq<T> = this.root.eq): ReadonlyStore<T> {
+    return derived(memo([this], f), [this], eq, this.root.eq)
+  }
+
+  /** Make a read-only store with a value computed from many stores (static method)
+
+      const store = Store.init({a: 1, b: 2, c: 3})
+      const sum = Store.combine([store.at('a'), store.at('b')], (a, b) => a + b)
+      sum.get() // => 3
+      let runs = 0
+      sum.on(_ => runs++)
+      store.at('c').set(4)
+      runs // => 0
+      store.update({a: 2, b: 1})
+      runs // => 0
+      store.at('a').set(3)
+      runs // => 1
+      sum.get() // => 4
+
+  The function is only run again when the value in some input store
+  has changed (by identity), and the listeners only when the computed value
+  has changed (see `ReadonlyStore` for the equality). */
+  static combine<A, T>(stores: [ReadonlyStore<A>], f: (a: A) => T, eq?: Eq<T>): ReadonlyStore<T>
+  static combine<A, B, T>(stores: [ReadonlyStore<A>, ReadonlyStore<B>], f: (a: A, b: B) => T, eq?: Eq<T>): ReadonlyStore<T>
+  static combine<A, B, C, T>(stores: [ReadonlyStore<A>, ReadonlyStore<B>, ReadonlyStore<C>], f: (a: A, b: B, c: C) => T, eq?: Eq<T>): ReadonlyStore<T>
+  static combine<A, B, C, D, T>(stores: [ReadonlyStore<A>, ReadonlyStore<B>, ReadonlyStore<C>, ReadonlyStore<D>], f: (a: A, b: B, c: C, d: D) => T, eq?: Eq<T>): ReadonlyStore<T>
+  static combine<A, T>(stores: ReadonlyStore<A>[], f: (...as: A[]) => T, eq?: Eq<T>): ReadonlyStore<T>
+  static combine(stores: ReadonlyStore<any>[], f: (...as: any[]) => any, eq?: Eq<any>): ReadonlyStore<any> {
+    const root_eq = stores.length > 0 ? Store.root_eq(stores[0]) : Eq.identity
+    return derived(memo(stores, f), stores, eq || root_eq, root_eq)
+  }
+
+  /** The equality of the root store of a store or a derived store */
+  private static root_eq(store: ReadonlyStore<any>): Eq<any> {
+    return store instanceof Store ? store.root.eq : (store as Derived<any>).root_eq
+  }
+
   /** Start a new transaction: listeners are only invoked when the
   (top-level) transaction finishes, and not on set (and modify) inside the transaction.
 
@@ -179,16 +435,161 @@ export class Store<S> {
       })   // => 3
       last // => 2
 
+  Transactions are atomic: if the function throws, the sets made in the
+  transaction are rolled back and the exception is rethrown.
+
+      const store = Store.init(1)
+      try {
+        store.transaction(() => {
+          store.set(2)
+          throw 'oops'
+        })
+      } catch (e) {
+        e // => 'oops'
+      }
+      store.get() // => 1
+
+  A nested transaction which throws only rolls back its own sets,
+  so catching its exception works like a savepoint:
+
+      const store = Store.init({a: 1, b: 1})
+      store.transaction(() => {
+        store.at('a').set(2)
+        try {
+          store.transaction(() => {
+            store.at('b').set(2)
+            throw 'oops'
+          })
+        } catch (e) {
+          // pass
+        }
+      })
+      store.get() // => {a: 2, b: 1}
+
+  The transaction can be given a label which describes the change,
+  see `on_change` and `Recorder`:
+
+      const store = Store.init({todos: [] as string[]})
+      let label
+      store.on_change(change => label = change.label)
+      store.transaction('add todo', () => {
+        store.at('todos').modify(todos => todos.concat('buy milk'))
+      })
+      label // => 'add todo'
+
   */
-  transaction<A>(m: () => A): A {
+  transaction<A>(m: () => A): A
+  transaction<A>(label: string, m: () => A): A
+  transaction<A>(label_or_m: string | (() => A), m?: () => A): A {
+    const [label, run] = typeof label_or_m == 'string' ? [label_or_m, m as () => A] : [undefined, label_or_m]
     let a: A | undefined
-    this.transact(() => {
-      a = m()
-    })
+    this.root.transact(() => {
+      a = run()
+    }, label)
     return a as A // unsafe cast, but safe because transact will run m (exactly once)
   }
 
-  /** Zoom in on a subpart of the store via a lens
+  /** Run an asynchronous transaction with optimistic changes
+
+  The changes made through the context are applied right away.  If the
+  promise rejects, they are reverted: the state becomes the state before the
+  transaction with only the changes made by others since then.
+
+      const store = Store.init({todos: [] as string[], saved: 0})
+      const server = {save: (todo: string) => new Promise<void>(() => undefined)}
+      const t = store.async_transaction(async ctx => {
+        ctx.optimistic(() => store.at('todos').modify(todos => todos.concat(['milk'])))
+        await server.save('milk')
+        ctx.optimistic(() => store.at('saved').modify(n => n + 1))
+      })
+      store.get() // => {todos: ['milk'], saved: 0}
+      t.status.get() // => {pending: true}
+
+  When `t.done` settles, the status is `{pending: false}`, or
+  `{pending: false, error}` if it rejected.
+
+  Note: the optimistic changes are reverted by undoing them on top of the
+  current state, newest first, matching array elements by identity.  Parts
+  of the state that others have set since an optimistic change are kept as
+  they are. */
+  async_transaction<A>(f: (ctx: AsyncContext<S>) => Promise<A>, options: AsyncTransactionOptions = {}): AsyncTransaction<A> {
+    const root = this.root
+    const label = options.label
+    const status = options.status || Store.init({pending: false} as AsyncStatus)
+    const steps = [] as OptimisticStep[]
+    const off = root.on_change(change => {
+      const own = find_index(steps, step => step.before === change.before && step.after === change.after)
+      if (own != -1) {
+        steps[own].seen = true
+      } else {
+        // only the optimistic changes made before are rebased on the changes by others
+        const theirs = aligned_diff(change.before, change.after)
+        steps.forEach(step => {
+          if (step.seen) {
+            step.undo = rebase_undo(step.undo, change.before, theirs)
+          }
+        })
+      }
+    })
+    const ctx: AsyncContext<S> = {
+      get: () => this.get(),
+      optimistic: m => {
+        const s_before = root.get()
+        root.capture(m, () => {
+          const after = root.get()
+          if (after !== s_before) {
+            steps.push({before: s_before, after, undo: aligned_diff(after, s_before), seen: false})
+          }
+        }, label)
+      },
+      set: s => ctx.optimistic(() => this.set(s)),
+      modify: f => ctx.optimistic(() => this.modify(f))
+    }
+    status.set({pending: true})
+    let running: Promise<A>
+    try {
+      running = f(ctx)
+    } catch (e) {
+      running = Promise.reject(e)
+    }
+    const done = running.then(
+      a => {
+        off()
+        status.set({pending: false})
+        return a
+      },
+      error => {
+        root.flush()
+        off()
+        const reverted = steps.reduceRight((s, step) => Patch.apply(s, step.undo), root.get())
+        root.transact(() => root.set(reverted), label)
+        status.set({pending: false, error})
+        throw error
+      })
+    // the rejection is reported in the status
+    done.catch(() => undefined)
+    return {status, done}
+  }
+
+  /** Notify the listeners now if there are changes they have not been notified about
+  (which can happen when the store has a scheduler other than `Scheduler.sync`)
+
+      const store = Store.init(1, {scheduler: Scheduler.manual()})
+      let last
+      store.on(x => last = x)
+      store.set(2)
+      last // => undefined
+      store.flush()
+      last // => 2
+
+  Does nothing inside a transaction. */
+  flush(): void {
+    this.root.flush()
+  }
+
+  /** Zoom in on a subpart of the store via a lens. Sets of values which
+  are equal to the current value are skipped, decided by the equality of the
+  root store unless another one is given.
 
       const store = Store.init({a: 1, b: 2} as Record<string, number>)
       const a_store = store.via(Lens.key('a'))
@@ -199,13 +600,139 @@ export class Store<S> {
       store.get() // => {b: 2}
 
   */
-  via<T>(lens: Lens<S, T>) {
+  via<T>(lens: Lens<S, T>, eq: Eq<T> = this.root.eq): Store<T> {
+    return this.sub(lens, undefined, eq)
+  }
+
+  /** Zoom in via a lens, with a key to identify the substore among its siblings */
+  private sub<T>(lens: Lens<S, T>, key?: string, eq: Eq<T> = this.root.eq): Store<T> {
+    const focus = sub_focus(this.focus, lens.get, key, lens.path)
     return new Store(
-      this.transact,
-      this.listen,
+      this.root,
+      focus,
       () => lens.get(this.get()),
-      (t: T) => this.set(lens.set(this.get(), t)))
-      // possible "optimization": only set if t /= lens.get()
+      (t: T) => {
+        const s = this.get()
+        const old = lens.get(s)
+        if (!eq(old, t)) {
+          this.root.patch(focus.path, old, t, () => this.set(lens.set(s, t)))
+        }
+      })
+  }
+
+  /** The path from the root store to this store, if it is known
+
+      const store = Store.init({todos: [{text: 'a'}]})
+      store.at('todos').via(Lens.index(0)).at('text').path() // => ['todos', 0, 'text']
+      store.at('todos').via(Lens.iso(x => x, x => x)).path() // => undefined
+
+  The path is known for stores made with `at` and `via` lenses with a path, such as
+  `Lens.at`, `Lens.key`, `Lens.index` and sequential compositions of them. */
+  path(): Path | undefined {
+    return this.focus.path && this.focus.path.slice()
+  }
+
+  /** The value of this store in some state of the root store, such as the states of a change (see `on_change`)
+
+      const store = Store.init({todos: [{text: 'a'}]})
+      store.at('todos').via(Lens.index(0)).at('text').from_root({todos: [{text: 'b'}]}) // => 'b'
+
+  */
+  from_root(s: any): S {
+    return focus_value(this.focus, s)
+  }
+
+  /** React on the changes of each top-level transaction (or set outside of
+  transactions) as JSON Patch (RFC 6902) operations. Returns the unsubscribe function.
+
+      const store = Store.init({todos: [{text: 'a'}], input: 'b'} as {todos: {text: string}[], input?: string})
+      let patch
+      store.on_patch(ops => patch = ops)
+      store.transaction(() => {
+        store.at('todos').via(Lens.index(0)).at('text').set('c')
+        store.via(Lens.key('input')).set(undefined)
+      })
+      patch // => [{op: 'replace', path: '/todos/0/text', value: 'c'}, {op: 'remove', path: '/input'}]
+
+  The operations are relative to the root store, and use the most precise path
+  known for each set. The patch listeners run before the other listeners, once
+  for each transaction since the last round of notification, in order. */
+  on_patch(k: (ops: PatchOperation[]) => void): () => void {
+    return this.root.on_change(change => k(change.patch))
+  }
+
+  /** React on the changes of each top-level transaction (or set outside of
+  transactions), with the states before and after, the patch (see `on_patch`)
+  and the label of the first labelled transaction in it. Returns the
+  unsubscribe function.
+
+      const store = Store.init({a: 1, b: 2})
+      let change
+      store.on_change(c => change = c)
+      store.transaction('increment', () => store.at('a').modify(x => x + 1))
+      change // => {label: 'increment', before: {a: 1, b: 2}, after: {a: 2, b: 2}, patch: [{op: 'replace', path: '/a', value: 2}]}
+
+  The changes are for the root store. The change listeners run before the
+  other listeners, once for each change since the last round of notification,
+  in order, so changes are kept apart even when a scheduler collapses them
+  into one round. */
+  on_change(k: (change: Change<any>) => void): () => void {
+    return this.root.on_change(k)
+  }
+
+  /** Zoom in on a part of the store which might not be there via a prism.
+  Returns undefined if it is not there right now.
+
+      type Remote = {tag: 'loading'} | {tag: 'loaded', data: number}
+      const store = Store.init({tag: 'loading'} as Remote)
+      const loaded = Prism.tag<Remote, {tag: 'loaded', data: number}>('tag', 'loaded')
+      store.narrow(loaded) // => undefined
+      store.set({tag: 'loaded', data: 1})
+      const data = store.narrow(loaded)!.at('data')
+      data.set(2)
+      store.get() // => {tag: 'loaded', data: 2}
+      store.set({tag: 'loading'})
+      data.set(3)
+      store.get() // => {tag: 'loading'}
+
+  Note: while the value is not there the substore ignores sets, and
+  its get returns the last value that was there. */
+  narrow<T>(prism: Prism<S, T>): Store<T> | undefined {
+    let last = prism.preview(this.get())
+    if (last === undefined) {
+      return undefined
+    }
+    const get = (s: S) => {
+      const t = prism.preview(s)
+      if (t !== undefined) {
+        last = t
+      }
+      return last as T // safe cast: last is only assigned values that were there
+    }
+    return new Store(
+      this.root,
+      sub_focus(this.focus, get),
+      () => get(this.get()),
+      (t: T) => {
+        const s = this.get()
+        const now = prism.preview(s)
+        if (now !== undefined && !this.root.eq(now, t)) {
+          this.set(prism.set(s, t))
+        }
+      })
+  }
+
+  /** Modify all the values in the store focused on by a traversal
+
+      const store = Store.init({todos: [{done: false}, {done: true}]})
+      store.over(
+        Traversal.seq(Lens.at('todos'), Lens.all()),
+        todo => ({...todo, done: true}))
+      store.get() // => {todos: [{done: true}, {done: true}]}
+
+  Listeners are notified once. Returns itself. */
+  over<T>(traversal: Traversal<S, T>, f: (t: T) => T): Store<S> {
+    return this.modify(s => traversal.modify(s, f))
   }
 
   /** Make a substore at a key
@@ -217,7 +744,7 @@ export class Store<S> {
 
   Note: the key must always be present. */
   at<K extends keyof S>(k: K): Store<S[K]> {
-    return this.via(Lens.at(k))
+    return this.sub(Lens.at(k), k as string)
   }
 
   /** Make a substore by picking many keys
@@ -256,18 +783,20 @@ export class Store<S> {
   Note: must not use the same part of the store several times. */
   relabel<T>(stores: {[K in keyof T]: Store<T[K]>}): Store<T> {
     const keys = Object.keys(stores) as (keyof T)[]
+    const get = () => {
+      const ret = {} as T
+      keys.forEach(k => {
+        ret[k] = stores[k].get()
+      })
+      return ret
+    }
     return new Store(
-      this.transact,
-      this.listen,
-      () => {
-        const ret = {} as T
-        keys.forEach(k => {
-          ret[k] = stores[k].get()
-        })
-        return ret
-      },
+      this.root,
+      // the stores may be anywhere in the root store
+      sub_focus(this.root.focus, get),
+      get,
       (t: T) => {
-        this.transact(() => {
+        this.root.transact(() => {
           keys.forEach(k => {
             stores[k].set(t[k])
           })
@@ -290,12 +819,14 @@ export class Store<S> {
   merge<T>(other: Store<T>): Store<S & T> {
     const other_keys = {} as {[K in keyof T]: true}
     Object.keys(other.get()).forEach((k: keyof T) => other_keys[k] = true)
+    const get = () => ({...this.get() as any, ...other.get() as any})
     return new Store(
-      this.transact,
-      this.listen,
-      () => ({...this.get() as any, ...other.get() as any}),
+      this.root,
+      // the other store may be anywhere in the root store
+      sub_focus(this.root.focus, get),
+      get,
       (t: S & T) => {
-        this.transact(() => {
+        this.root.transact(() => {
           Object.keys(t).forEach(k => {
             if (k in other_keys) {
               other.at(k as keyof T).set((t as any)[k])
@@ -337,49 +868,263 @@ export class Store<S> {
     return store.get().map((_, i) => store.via(Lens.index(i)))
   }
 
-  /** Connect with local storage */
-  storage_connect(
-      key: string = 'state',
-      audit: (s: S, str: string) => boolean = (_, str) => str.length < 1000000,
-      api: {
-        get: (key: string) => string | null,
-        set: (key: string, data: string) => void
-      } = {
-        get: window.localStorage.getItem.bind(window.localStorage),
-        set: window.localStorage.setItem.bind(window.localStorage)
+  /** Get partial stores for each element currently in the array, located by a key
+
+      const store = Store.init([{id: 1, v: 'a'}, {id: 2, v: 'b'}])
+      const [one, two] = Store.each_by(store, x => x.id)
+      store.modify(xs => xs.slice().reverse())
+      two.at('v').set('c')
+      store.get() // => [{id: 2, v: 'c'}, {id: 1, v: 'a'}]
+      store.modify(xs => xs.filter(x => x.id != 1))
+      one.at('v').set('d')
+      store.get() // => [{id: 2, v: 'c'}]
+      one.get() // => {id: 1, v: 'a'}
+
+  The substores stay on the same element when the array is reordered.
+  (static method)
+
+  Note: when its element has been removed, a substore ignores sets
+  and its get returns the last value the element had. */
+  static each_by<A, K>(store: Store<A[]>, key_fn: (a: A) => K): Store<A>[] {
+    return store.get().map(a => store.narrow(Prism.by_key(key_fn, key_fn(a))) as Store<A>)
+      // safe cast: the element is in the array now
+  }
+
+  /** Connect with local storage
+
+  The state is loaded from the storage when connecting, if the audit accepts
+  it, and saved as JSON after each change.  The options can also be given as
+  an object, which can have a codec to convert the state to and from the data
+  that is saved, such as `Undo.codec()` for histories:
+
+      const saved = {} as Record<string, string>
+      const api = {get: (k: string) => saved[k] || null, set: (k: string, v: string) => { saved[k] = v }}
+      const store = Store.init(Undo.init(1))
+      store.storage_connect({key: 'history', api, codec: Undo.codec<number>()})
+      store.modify(Undo.advance_to(2))
+      saved.history // => '{"base":1,"deltas":[[{"op":"replace","path":"","value":2}]],"now":1}'
+      const reloaded = Store.init(Undo.init(0))
+      reloaded.storage_connect({key: 'history', api, codec: Undo.codec<number>()})
+      reloaded.get() // => Undo.advance_to(2)(Undo.init(1))
+
+  With a version, the data is saved in an envelope, and data from older
+  versions is migrated when it is loaded:
+
+      saved.todos = JSON.stringify({version: 1, data: ['buy milk']})
+      const todos = Store.init([] as {text: string, done: boolean}[])
+      let result
+      todos.storage_connect({
+        key: 'todos',
+        api,
+        version: 2,
+        migrations: {1: (texts: string[]) => texts.map(text => ({text, done: false}))},
+        report: r => result = r
+      })
+      todos.get() // => [{text: 'buy milk', done: false}]
+      result // => {status: 'migrated', from: 1, to: 2}
+
+  Parts of the state can be left out, and values which are not JSON can be
+  saved with serializers.  The loaded data is then merged into the current
+  state. Arrays are replaced as a whole, so the values left out of their
+  elements are filled in by `fill`:
+
+      type App = {todos: {text: string, editing: boolean}[], input: string, due: Date}
+      const options = {
+        key: 'app',
+        api,
+        exclude: [['input'], ['todos', '*', 'editing']],
+        fill: (path: Path) => path[path.length - 1] == 'editing' ? false : undefined,
+        serializers: [Serializer.date]
       }
+      const app = Store.init<App>({todos: [{text: 'milk', editing: true}], input: '', due: new Date(0)})
+      app.storage_connect(options)
+      app.at('input').set('eggs')
+      saved.app // => '{"todos":[{"text":"milk"}],"due":{"$type":"Date","value":"1970-01-01T00:00:00.000Z"}}'
+      const next = Store.init<App>({todos: [], input: 'bread', due: new Date(1)})
+      next.storage_connect(options)
+      next.get() // => {todos: [{text: 'milk', editing: false}], input: 'bread', due: new Date(0)}
+
+  */
+  storage_connect(options: StorageOptions<S>): () => void
+  storage_connect(key?: string, audit?: (s: S, str: string) => boolean, api?: StorageApi): () => void
+  storage_connect(
+      key_or_options: string | StorageOptions<S> = 'state',
+      audit?: (s: S, str: string) => boolean,
+      api?: StorageApi
     ): () => void
   {
-    const stored = api.get(key)
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored)
-        if (audit(parsed, stored)) {
-          this.set(parsed)
+    const options = typeof key_or_options == 'string' ? {key: key_or_options, audit, api} : key_or_options
+    const key = options.key || 'state'
+    const api_ = options.api || {
+      get: window.localStorage.getItem.bind(window.localStorage),
+      set: window.localStorage.setItem.bind(window.localStorage)
+    }
+    const save = (s: S) => {
+      const str = this.saved(s, options)
+      str !== undefined && api_.set(key, str)
+    }
+    const {result, reset} = this.restore(api_.get(key), options)
+    const keep = result.status == 'fallback' && result.fallback == 'keep'
+    options.report && options.report(result)
+    reset && save(this.get())
+    return this.on(s => keep || save(s))
+  }
+
+  /** Connect with an asynchronous storage, such as `AsyncStorage.memory()`
+
+  The saved state is loaded while hydrating, and changes are saved
+  after it, optionally debounced or throttled.  The options are as for
+  `storage_connect`.
+
+      const api = AsyncStorage.memory({state: '{"count": 1}'})
+      const store = Store.init({count: 0})
+      const connection = store.async_storage_connect({api, debounce: 100})
+      connection.hydrating.get() // => true
+      store.get() // => {count: 0}
+
+  When `connection.hydrated` resolves, the count is 1, and changes after
+  that are saved when there have been no changes for 100 milliseconds, or
+  when `connection.flush()` is called.
+
+  Changes made while hydrating are not saved, and are overwritten if a state
+  is loaded. */
+  async_storage_connect(options: AsyncStorageOptions<S>): AsyncStorageConnection {
+    const key = options.key || 'state'
+    const timers = options.timers || Timers.real
+    const on_error = options.on_error || rethrow_async
+    const hydrating = Store.init(true)
+    let keep = false
+    let dirty = false
+    let last_saved: S | undefined = undefined
+    let last_write = -Infinity
+    let timer: any = undefined
+    let writing = Promise.resolve()
+    const write = (): Promise<void> => {
+      if (timer !== undefined) {
+        timers.clear_timeout(timer)
+        timer = undefined
+      }
+      if (dirty) {
+        dirty = false
+        last_write = timers.now()
+        const s = last_saved = this.get()
+        const str = this.saved(s, options)
+        if (str !== undefined) {
+          writing = writing.then(() => options.api.set(key, str)).catch(on_error)
+        }
+      }
+      return writing
+    }
+    const schedule = (s: S) => {
+      if (hydrating.get() || keep || s === last_saved) {
+        return
+      }
+      dirty = true
+      if (options.debounce !== undefined) {
+        timer !== undefined && timers.clear_timeout(timer)
+        timer = timers.set_timeout(write, options.debounce)
+      } else if (options.throttle !== undefined) {
+        const wait = last_write + options.throttle - timers.now()
+        if (wait <= 0) {
+          write()
+        } else if (timer === undefined) {
+          timer = timers.set_timeout(write, wait)
         }
-      } catch (_) {
-        // pass
+      } else {
+        write()
       }
     }
-    return this.on(s => {
-      const str = JSON.stringify(s)
-      audit(s, str) && api.set(key, str)
+    const off = this.on(schedule)
+    const hydrated = options.api.get(key).then(stored => {
+      last_saved = this.get()
+      const {result, reset} = this.restore(stored, options)
+      keep = result.status == 'fallback' && result.fallback == 'keep'
+      return {result, reset}
+    }, error => ({result: {status: 'invalid', error} as StorageResult, reset: false})).then(({result, reset}) => {
+      last_saved = this.get()
+      hydrating.set(false)
+      options.report && options.report(result)
+      if (reset) {
+        dirty = true
+        write()
+      }
+      return result
     })
+    return {
+      hydrating,
+      hydrated,
+      flush: () => hydrated.then(write),
+      off() {
+        off()
+        keep = true
+        if (timer !== undefined) {
+          timers.clear_timeout(timer)
+          timer = undefined
+        }
+      }
+    }
+  }
+
+  /** Load saved data, returning the result and whether the current state should be saved over it */
+  private restore(stored: string | null, options: PersistOptions<S>): {result: StorageResult, reset: boolean} {
+    if (!stored) {
+      return {result: {status: 'empty'}, reset: false}
+    }
+    const codec = options.codec || identity_codec
+    const decode = (data: any): S => codec.decode(revive(data, options.serializers || []))
+    const version = options.version
+    const fallback = options.fallback || 'reset'
+    try {
+      const parsed = JSON.parse(stored)
+      if (version === undefined) {
+        return this.load(decode(parsed), stored, options, {status: 'loaded'})
+      }
+      const envelope = is_envelope(parsed)
+      const from = envelope ? parsed.version : 0
+      const data = envelope ? parsed.data : parsed
+      const chain = migration_chain(from, version, options.migrations || {})
+      if (chain) {
+        const migrated = chain.reduce((d, m) => m(d), data)
+        const result: StorageResult = chain.length == 0 ? {status: 'loaded', version} : {status: 'migrated', from, to: version}
+        return this.load(decode(migrated), stored, options, result)
+      } else if (fallback == 'reset' || fallback == 'keep') {
+        return {result: {status: 'fallback', version: from, fallback}, reset: fallback == 'reset'}
+      } else {
+        const s = fallback(data, from)
+        s === undefined || this.set(s)
+        return {result: {status: 'fallback', version: from, fallback: 'callback'}, reset: s === undefined}
+      }
+    } catch (error) {
+      return {result: {status: 'invalid', error}, reset: false}
+    }
+  }
+
+  /** Set a loaded state if the audit accepts it */
+  private load(s: S, stored: string, options: PersistOptions<S>, result: StorageResult): {result: StorageResult, reset: boolean} {
+    if ((options.audit || default_audit)(s, stored)) {
+      const merge = options.merge === undefined ? !!(options.include || options.exclude) : options.merge
+      const merged = merge ? merge_into(this.get(), s) : s
+      this.set(options.fill && options.exclude ? fill_paths(merged, options.exclude, options.fill) : merged)
+      return {result, reset: false}
+    } else {
+      return {result: {status: 'rejected'}, reset: false}
+    }
+  }
+
+  /** The string to save for a state, or undefined if the audit rejects it */
+  private saved(s: S, options: PersistOptions<S>): string | undefined {
+    const picked = options.include ? pick_paths(s, options.include) : s
+    const selected = options.exclude ? omit_paths(picked, options.exclude) : picked
+    const data = serialize((options.codec || identity_codec).encode(selected), options.serializers || [])
+    const str = JSON.stringify(options.version === undefined ? data : {version: options.version, data})
+    return (options.audit || default_audit)(s, str) ? str : undefined
   }
 
-  /** Connect with window.location.hash */
+  /** Connect with window.location.hash, or another location such as `Router.history_api()` */
   static location_connect(
       store: Store<string>,
       audit: (s: string) => boolean = () => true,
-      api: {
-        get(): string,
-        set(hash: string): void,
-        on(cb: () => void): void
-      } = {
-        get() { return window.location.hash.slice(1) },
-        set(s) { window.location.hash = s },
-        on(cb) { window.onhashchange = cb }
-      }
+      api: LocationApi = Router.hash_api()
     ): () => void
   {
     const update = () => {
@@ -394,318 +1139,2737 @@ export class Store<S> {
         }
       }
     }
-    api.on(update)
+    const off_location = api.on(update)
     update()
-    return store.on(hash => {
+    const off = store.on(hash => {
       if (hash != api.get()) {
         api.set(hash)
       }
     })
+    return () => {
+      off()
+      off_location && off_location()
+    }
   }
-}
 
-/** Attach a store with a virtual DOM, returning the reattach function for hot module reloading. */
-export function attach<S, VDOM>(
-    render: (vdom: VDOM) => void,
-    init_state: S,
-    setup_view: (store: Store<S>) => () => VDOM,
-  ): (setup_next_view: (store: Store<S>) => () => VDOM) => void {
-  function connect(store: Store<S>, setup_view: (store: Store<S>) => () => VDOM): () => void {
-    const view = setup_view(store)
-    function redraw() {
-      store.transaction(() => {
-        render(view())
+  /** Connect with the Redux DevTools extension (static method)
+
+  Each change is sent as an action named by the label of its
+  transaction (see `on_change`), with the patch in the action.  Jumping to
+  states and actions, toggling actions, importing and committing are done on
+  the store.  The connection defaults to the extension, if it is installed.
+
+      const sent = [] as any[]
+      let dispatch = (message: DevtoolsMessage) => {}
+      const api = {
+        init: (state: any) => sent.push(['init', state]),
+        send: (action: any, state: any) => sent.push([action && action.type, state]),
+        subscribe: (k: (message: DevtoolsMessage) => void) => { dispatch = k }
+      }
+      const store = Store.init({count: 0})
+      Store.devtools_connect(store, api)
+      store.transaction('increment', () => store.at('count').modify(x => x + 1))
+      sent // => [['init', {count: 0}], ['increment', {count: 1}]]
+      dispatch({type: 'DISPATCH', state: '{"count": 0}', payload: {type: 'JUMP_TO_STATE'}})
+      store.get() // => {count: 0}
+      sent.length // => 2
+
+  Only the root store should be connected. */
+  static devtools_connect<S>(
+      store: Store<S>,
+      api: DevtoolsConnection | undefined = typeof window != 'undefined' && (window as any).__REDUX_DEVTOOLS_EXTENSION__
+        ? (window as any).__REDUX_DEVTOOLS_EXTENSION__.connect()
+        : undefined
+    ): () => void
+  {
+    if (!api) {
+      return () => undefined
+    }
+    const connection = api
+    interface Action {
+      id: number
+      type: string
+      patch: PatchOperation[]
+      timestamp: number
+    }
+    let committed = store.get()
+    let actions = [] as Action[]
+    let skipped = [] as number[]
+    let next_id = 1
+    let applying = false
+    function computed_states(): S[] {
+      const states = [committed]
+      actions.forEach(action => {
+        const prev = states[states.length - 1]
+        states.push(skipped.indexOf(action.id) == -1 ? Patch.apply(prev, action.patch) : prev)
       })
+      return states
+    }
+    function apply(s: S) {
+      applying = true
+      try {
+        store.set(s)
+        store.flush()
+      } finally {
+        applying = false
+      }
+    }
+    function lifted_state() {
+      const actions_by_id = {0: {type: 'PERFORM_ACTION', action: {type: '@@INIT'}, timestamp: 0}} as {[id: number]: any}
+      actions.forEach(action => {
+        actions_by_id[action.id] = {
+          type: 'PERFORM_ACTION',
+          action: {type: action.type, patch: action.patch},
+          timestamp: action.timestamp
+        }
+      })
+      return {
+        actionsById: actions_by_id,
+        computedStates: computed_states().map(state => ({state})),
+        currentStateIndex: actions.length,
+        nextActionId: next_id,
+        skippedActionIds: skipped,
+        stagedActionIds: [0].concat(actions.map(action => action.id)),
+        committedState: committed,
+        isLocked: false,
+        isPaused: false
+      }
+    }
+    function receive(message: DevtoolsMessage) {
+      if (message.type != 'DISPATCH' || !message.payload) {
+        return
+      }
+      // send the local changes not yet notified first, so that they are
+      // neither lost nor taken as made by the extension
+      store.flush()
+      switch (message.payload.type) {
+        case 'JUMP_TO_STATE':
+        case 'JUMP_TO_ACTION':
+          message.state !== undefined && apply(JSON.parse(message.state))
+          break
+        case 'TOGGLE_ACTION': {
+          const id = message.payload.id as number
+          const i = skipped.indexOf(id)
+          skipped = i == -1 ? skipped.concat([id]) : skipped.filter(x => x != id)
+          const states = computed_states()
+          apply(states[states.length - 1])
+          connection.send(null, lifted_state())
+          break
+        }
+        case 'IMPORT_STATE': {
+          const next = message.payload.nextLiftedState
+          committed = next.computedStates[0].state
+          actions = (next.stagedActionIds as number[]).slice(1).map(id => {
+            const performed = next.actionsById[id]
+            return {
+              id,
+              type: performed.action.type,
+              patch: performed.action.patch || [],
+              timestamp: performed.timestamp
+            }
+          })
+          skipped = next.skippedActionIds || []
+          next_id = next.nextActionId || actions.reduce((m, action) => Math.max(m, action.id + 1), 1)
+          apply(next.computedStates[next.currentStateIndex].state)
+          connection.send(null, next)
+          break
+        }
+        case 'COMMIT':
+          committed = store.get()
+          actions = []
+          skipped = []
+          connection.init(committed)
+          break
+      }
+    }
+    connection.init(committed)
+    const off_change = store.on_change(change => {
+      if (!applying) {
+        const action = {
+          id: next_id++,
+          type: change.label === undefined ? 'set' : change.label,
+          patch: change.patch,
+          timestamp: Date.now()
+        }
+        actions.push(action)
+        connection.send({type: action.type, patch: action.patch}, change.after)
+      }
+    })
+    const off_subscribe = connection.subscribe(receive)
+    return () => {
+      off_change()
+      off_subscribe && off_subscribe()
     }
-    const off = store.on(redraw)
-    redraw()
-    return off
   }
 
-  let store = Store.init(init_state)
-  let off = connect(store, setup_view)
+  /** Spread the changes of a root store to other instances of the app over a channel (static method)
 
-  return setup_next_view => {
-    off()
-    store = Store.init(store.get())
-    off = connect(store, setup_next_view)
-  }
-}
+  By default, the newest state wins: each change is sent with a logical
+  clock, and a state received with an older time is ignored, so that the
+  instances agree on the state.  With `merge: 'patch'`, the patches of the
+  changes are sent instead, and applied to the state of the receiver, so that
+  changes to different parts of the state are kept.
 
-/** A lens: allows you to operate on a subpart `T` of some data `S`
+      const channels = SyncChannel.memory()
+      const a = Store.init({x: 0, y: 0})
+      const b = Store.init({x: 0, y: 0})
+      Store.sync_connect(a, channels(), {merge: 'patch'})
+      Store.sync_connect(b, channels(), {merge: 'patch'})
+      a.at('x').set(1)
+      b.at('y').set(2)
+      a.get() // => {x: 1, y: 2}
+      b.get() // => {x: 1, y: 2}
 
-Lenses must conform to these three lens laws:
+  Changes received over the channel are not sent again, but the changes
+  listeners make in reaction to them are. */
+  static sync_connect<S>(store: Store<S>, channel: SyncChannel, options: SyncOptions = {}): () => void {
+    const id = options.id || Math.random().toString(36).slice(2)
+    const patch = options.merge == 'patch'
+    let clock = 0
+    let stamp = {time: 0, from: id}
+    /** The state received over the channel: its change is not sent again,
+    but the changes listeners make in reaction to it are */
+    let received: {state: S} | undefined
+    function apply(s: S) {
+      received = {state: s}
+      try {
+        store.set(s)
+        store.flush()
+      } finally {
+        received = undefined
+      }
+    }
+    const off_change = store.on_change(change => {
+      if (received === undefined || change.after !== received.state) {
+        clock++
+        stamp = {time: clock, from: id}
+        channel.post(patch ? {from: id, time: clock, patch: change.patch} : {from: id, time: clock, state: change.after})
+      }
+    })
+    const off_channel = channel.on(message => {
+      if (message.from == id) {
+        return
+      }
+      // send the local changes not yet notified first, so that they are
+      // neither lost nor taken as received from the channel
+      store.flush()
+      clock = Math.max(clock, message.time)
+      if (message.patch) {
+        apply(Patch.apply(store.get(), message.patch))
+      } else if (message.time > stamp.time || message.time == stamp.time && message.from > stamp.from) {
+        stamp = {time: message.time, from: message.from}
+        apply(message.state)
+      }
+    })
+    return () => {
+      off_change()
+      off_channel()
+    }
+  }
+}
 
-* `l.get(l.set(s, t)) = t`
+/** Options to `storage_connect` */
+export interface StorageOptions<S> extends PersistOptions<S> {
+  /** The storage (default: `window.localStorage`) */
+  api?: StorageApi
+}
 
-* `l.set(s, l.get(s)) = s`
+/** Options to `async_storage_connect` */
+export interface AsyncStorageOptions<S> extends PersistOptions<S> {
+  /** The storage */
+  api: AsyncStorageApi
+  /** Save when there have been no changes for this many milliseconds */
+  debounce?: number
+  /** Save at most once per this many milliseconds */
+  throttle?: number
+  /** The timers for debouncing and throttling (default: `Timers.real`) */
+  timers?: Timers
+  /** Gets the errors from saving (default: rethrow them asynchronously) */
+  on_error?: (error: any) => void
+}
 
-* `l.set(l.set(s, a), b) = l.set(s, b)`
-*/
-export interface Lens<S, T> {
-  /** Get the value via the lens */
-  get(s: S): T,
+/** The options shared by `storage_connect` and `async_storage_connect` */
+export interface PersistOptions<S> {
+  /** The key to save under (default: `'state'`) */
+  key?: string
+  /** Should a state with this JSON be loaded or saved? (default: if the JSON is shorter than a million characters) */
+  audit?: (s: S, str: string) => boolean
+  /** Converts the state to and from the data that is saved (default: the state is saved as it is) */
+  codec?: Codec<S>
+  /** The version of the data. When given, the data is saved in an envelope `{version, data}`,
+  and data saved without an envelope is at version 0 */
+  version?: number
+  /** Migrations of loaded data from older versions: `migrations[n]` migrates data from version `n` to `n + 1` */
+  migrations?: Migrations
+  /** What to do when loaded data has a version which cannot be migrated from (default: `'reset'`):
 
-  /** Set the value via the lens */
-  set(s: S, t: T): S
+  * `'reset'`: start from the current state, and save it over the loaded data
+  * `'keep'`: start from the current state, and do not save over the loaded data,
+    for example if it is from a newer version of the app
+  * a function from the loaded data and its version to the state, or `undefined` to reset */
+  fallback?: 'reset' | 'keep' | ((data: any, version: any) => S | undefined)
+  /** Gets the result of loading */
+  report?: (result: StorageResult) => void
+  /** Only save the values at these paths. A `'*'` in a path is any key or index */
+  include?: Path[]
+  /** Do not save the values at these paths, such as `['todos', '*', 'editing']`.
+  A `'*'` in a path is any key or index */
+  exclude?: Path[]
+  /** Serializers for values which are not JSON, such as `Serializer.date` */
+  serializers?: Serializer<any>[]
+  /** Merge the loaded data into the current state, instead of replacing it:
+  objects are merged key by key, other values are replaced (default: if `include` or `exclude` is given) */
+  merge?: boolean
+  /** The values of excluded paths which are missing after loading, such as
+  the fields of the elements of loaded arrays, by their paths (such as
+  `['todos', 0, 'editing']`). Returning undefined leaves them out. */
+  fill?: (path: Path) => any
 }
 
-/** Common lens constructors and functions */
-export module Lens {
-  /** Make a lens from a getter and setter
+/** Converts values which are not JSON to and from JSON, for `storage_connect`.
+Serialized values are saved as `{$type: name, value}`. */
+export interface Serializer<A> {
+  /** The name saved with the value */
+  name: string
+  /** Is some value serialized by this serializer? */
+  test(x: any): boolean
+  serialize(a: A): any
+  revive(data: any): A
+}
 
-  Note: lenses are subject to the three lens laws */
-  export function lens<S, T>(get: (s: S) => T, set: (s: S, t: T) => S): Lens<S, T> {
-    return {get, set}
+/** Common serializers */
+export module Serializer {
+  /** Dates, as their ISO string */
+  export const date: Serializer<Date> = {
+    name: 'Date',
+    test: x => x instanceof Date,
+    serialize: d => d.toISOString(),
+    revive: str => new Date(str)
   }
 
-  /** Lens from a record of lenses
+  /** Maps, as their entries */
+  export const map: Serializer<Map<any, any>> = {
+    name: 'Map',
+    test: x => typeof Map != 'undefined' && x instanceof Map,
+    serialize(m) {
+      const entries = [] as [any, any][]
+      m.forEach((v, k) => entries.push([k, v]))
+      return entries
+    },
+    revive(entries: [any, any][]) {
+      const m = new Map()
+      entries.forEach(([k, v]) => m.set(k, v))
+      return m
+    }
+  }
 
-  Note: must not use the same part of the store several times. */
-  export function relabel<S, T>(lenses: {[K in keyof T]: Lens<S, T[K]>}): Lens<S, T> {
-    const keys = Object.keys(lenses) as (keyof T)[]
-    return lens(
-      s => {
-        const ret = {} as T
-        keys.forEach(k => {
-          ret[k] = lenses[k].get(s)
-        })
-        return ret
-      },
-      (s, t) => {
-        let r = s
-        keys.forEach(k => {
-          r = lenses[k].set(r, t[k])
-        })
-        return r
-      })
+  /** Sets, as their elements */
+  export const set: Serializer<Set<any>> = {
+    name: 'Set',
+    test: x => typeof Set != 'undefined' && x instanceof Set,
+    serialize(xs) {
+      const elements = [] as any[]
+      xs.forEach(x => elements.push(x))
+      return elements
+    },
+    revive(elements: any[]) {
+      const xs = new Set()
+      elements.forEach(x => xs.add(x))
+      return xs
+    }
   }
 
-  /** Lens to a key in a record
+  /** Instances of a class, as their own properties. Revived instances are made without running the constructor.
 
-  Note: the key must always be present. */
-  export function at<S, K extends keyof S>(k: K): Lens<S, S[K]> {
-    return lens(
-      s => s[k],
-      (s, v) => ({...(s as any), [k as string]: v}))
-                // unsafe cast // safe cast
+      class Point {
+        constructor(public x: number, public y: number) {}
+        norm() { return Math.abs(this.x) + Math.abs(this.y) }
+      }
+      const point = Serializer.instance('Point', Point)
+      point.revive(point.serialize(new Point(1, -2))).norm() // => 3
+
+  */
+  export function instance<A>(name: string, cls: {prototype: A}): Serializer<A> {
+    return {
+      name,
+      test: x => x instanceof (cls as any),
+      serialize(a) {
+        const data = {} as Record<string, any>
+        Object.keys(a as any).forEach(k => data[k] = (a as any)[k])
+        return data
+      },
+      revive(data: Record<string, any>) {
+        const a = Object.create(cls.prototype as any)
+        Object.keys(data).forEach(k => a[k] = data[k])
+        return a
+      }
+    }
   }
+}
 
-  /** Make a lens from an isomorphism.
+/** Migrations of saved data from each version to the next */
+export type Migrations = {[from: number]: (data: any) => any}
 
-      const store = Store.init(5)
-      const doubled = store.via(Lens.iso(x => 2 * x, x => x / 2))
-      doubled.get() // => 10
-      doubled.set(50)
-      store.get() // => 25
-      doubled.modify(x => x * 2).get() // => 100
-      store.get() // => 50
+/** The result of loading saved data in `storage_connect` */
+export type StorageResult =
+  {status: 'empty'} |
+  {status: 'loaded', version?: number} |
+  {status: 'migrated', from: number, to: number} |
+  {status: 'fallback', version: any, fallback: 'reset' | 'keep' | 'callback'} |
+  {status: 'rejected'} |
+  {status: 'invalid', error: any}
 
-  Note: requires that for all `s` and `t` we have `f(g(t)) = t` and `g(f(s)) = s` */
-  export function iso<S, T>(f: (s: S) => T, g: (t: T) => S): Lens<S, T> {
-    return lens(f, (_s: S, t: T) => g(t))
+/** A synchronous key-value storage, such as `window.localStorage` */
+export interface StorageApi {
+  get(key: string): string | null
+  set(key: string, data: string): void
+}
+
+/** An asynchronous key-value storage, such as IndexedDB */
+export interface AsyncStorageApi {
+  get(key: string): Promise<string | null>
+  set(key: string, data: string): Promise<void>
+}
+
+/** A connection made by `async_storage_connect` */
+export interface AsyncStorageConnection {
+  /** Is the saved state being loaded? */
+  hydrating: ReadonlyStore<boolean>
+  /** Resolves with the result of loading when hydrating is done */
+  hydrated: Promise<StorageResult>
+  /** Save any debounced or throttled change now, resolves when all saves are done */
+  flush(): Promise<void>
+  /** Stop saving changes, dropping any change that is not saved yet */
+  off(): void
+}
+
+/** Asynchronous storages */
+export module AsyncStorage {
+  /** A storage in memory, with its data exposed */
+  export function memory(data: Record<string, string> = {}): AsyncStorageApi & {data: Record<string, string>} {
+    return {
+      data,
+      get: key => Promise.resolve(Object.prototype.hasOwnProperty.call(data, key) ? data[key] : null),
+      set(key, str) {
+        data[key] = str
+        return Promise.resolve()
+      }
+    }
   }
 
-  /** Lens to a keys in a record
+  /** The parts of Node's `fs` module used by `files` */
+  export interface FileSystem {
+    readFile(path: string, encoding: string, k: (error: any, data: string) => void): void
+    writeFile(path: string, data: string, k: (error: any) => void): void
+  }
 
-  Note: the keys must always be present. */
-  export function pick<S, Ks extends keyof S>(...keys: Ks[]): Lens<S, {[K in Ks]: S[K]}> {
-    const lenses = {} as {[K in Ks]: Lens<S, S[K]>}
-    keys.forEach((k: Ks) => lenses[k] = at(k))
-    return relabel(lenses)
+  /** A storage with a file for each key in a directory, using Node's `fs` module,
+  as in `AsyncStorage.files(require('fs'), dir)`. Missing files are empty. */
+  export function files(fs: FileSystem, dir: string): AsyncStorageApi {
+    const path = (key: string) => dir + '/' + encodeURIComponent(key) + '.json'
+    return {
+      get: key => new Promise<string | null>((resolve, reject) =>
+        fs.readFile(path(key), 'utf8', (error, data) =>
+          error ? (error.code == 'ENOENT' ? resolve(null) : reject(error)) : resolve(data))),
+      set: (key, str) => new Promise<void>((resolve, reject) =>
+        fs.writeFile(path(key), str, error => error ? reject(error) : resolve()))
+    }
   }
+}
 
-  /** Lens to a key in a record which may be missing
+/** Timers, which can be faked in tests */
+export interface Timers {
+  /** The current time in milliseconds */
+  now(): number
+  set_timeout(k: () => void, ms: number): any
+  clear_timeout(handle: any): void
+}
 
-  Note: setting the value to undefined removes the key from the record. */
-  export function key<S, K extends keyof S>(k: K): Lens<S, S[K] | undefined> {
-    return lens(
-      x => x[k],
-      (s, v) => {
-        // as string: safe cast
-        // as any: https://github.com/Microsoft/TypeScript/issues/14409
-        if (v === undefined) {
-          const copy = {} as S
-          for (let i in s) {
-            if (i != k) {
-              copy[i] = s[i]
-            }
-          }
-          return copy
-        } else {
-          return {
-            ...(s as any),
-            [k as string]: v
+/** Real and fake timers */
+export module Timers {
+  /** The timers of the environment */
+  export const real: Timers = {
+    now: () => Date.now(),
+    set_timeout: (k, ms) => setTimeout(k, ms),
+    clear_timeout: handle => clearTimeout(handle)
+  }
+
+  /** Fake timers, which only advance when told to */
+  export interface Fake extends Timers {
+    /** Advance the time, running the timeouts that are due in order */
+    advance(ms: number): void
+  }
+
+  /** Make fake timers, starting at some time
+
+      const timers = Timers.fake()
+      const log = [] as number[]
+      timers.set_timeout(() => log.push(timers.now()), 20)
+      timers.set_timeout(() => log.push(timers.now()), 10)
+      timers.advance(15)
+      log // => [10]
+      timers.advance(15)
+      log // => [10, 20]
+      timers.now() // => 30
+
+  */
+  export function fake(start: number = 0): Fake {
+    let time = start
+    let next_handle = 0
+    let timeouts = [] as {handle: number, at: number, k: () => void}[]
+    return {
+      now: () => time,
+      set_timeout(k, ms) {
+        const handle = next_handle++
+        timeouts.push({handle, at: time + Math.max(0, ms), k})
+        return handle
+      },
+      clear_timeout(handle) {
+        timeouts = timeouts.filter(t => t.handle !== handle)
+      },
+      advance(ms) {
+        const until = time + ms
+        while (true) {
+          const due = timeouts.filter(t => t.at <= until).sort((a, b) => a.at - b.at || a.handle - b.handle)[0]
+          if (due === undefined) {
+            break
           }
+          timeouts = timeouts.filter(t => t !== due)
+          time = due.at
+          due.k()
         }
+        time = until
       }
-    )
+    }
   }
+}
 
-  /** Lens which refer to a default value instead of undefined
+/** Converts values to and from some other representation, such as JSON data */
+export interface Codec<S> {
+  encode(s: S): any
+  decode(data: any): S
+}
 
-      const store = Store.init({a: 1, b: 2} as Record<string, number>)
-      const a_store = store.via(Lens.key('a')).via(Lens.def(0))
-      a_store.set(3)
-      store.get() // => {a: 3, b: 2}
-      a_store.get() // => 3
-      a_store.set(0)
-      store.get() // => {b: 2}
-      a_store.modify(x => x + 1)
-      store.get() // => {a: 1, b: 2}
+/** A store which can only be read and listened to, such as a derived store
+
+Every `Store` is also a `ReadonlyStore`.
+
+A derived store notifies its listeners when its value has changed by the
+equality given when it was made, which defaults to the equality of the root
+store it was derived from (see the `eq` option of `Store.init`). For `Store.combine`, that
+is the root store of the first input store. */
+export interface ReadonlyStore<S> {
+  /** Get the current value (which must not be mutated) */
+  get(): S
+
+  /** React on changes. Returns the unsubscribe function. */
+  on(k: (s: S) => void): () => void
+
+  /** React on a difference in value. Returns the unsubscribe function. */
+  ondiff(k: (new_value: S, old_value: S) => void, eq?: Eq<S>): () => void
+
+  /** Make a read-only store with a value computed from this store */
+  derive<T>(f: (s: S) => T, eq?: Eq<T>): ReadonlyStore<T>
+}
+
+/** Memoize a function on the values of some stores, compared by identity */
+function memo<T>(stores: ReadonlyStore<any>[], f: (...as: any[]) => T): () => T {
+  let last_inputs: any[] | undefined
+  let last_output: T
+  return () => {
+    const inputs = stores.map(s => s.get())
+    if (!last_inputs || inputs.some((x, i) => x !== (last_inputs as any[])[i])) {
+      last_output = f(...inputs)
+      last_inputs = inputs
+    }
+    return last_output
+  }
+}
+
+/** A derived store, which remembers the equality of its root store */
+interface Derived<T> extends ReadonlyStore<T> {
+  readonly root_eq: Eq<any>
+}
+
+/** A read-only store with a getter which is listened to via its input stores */
+function derived<T>(get: () => T, inputs: ReadonlyStore<any>[], eq: Eq<T>, root_eq: Eq<any>): ReadonlyStore<T> {
+  const self: Derived<T> = {
+    root_eq,
+    get,
+    on(k) {
+      let last = get()
+      const offs = inputs.map(input => input.on(() => {
+        const now = get()
+        if (!eq(now, last)) {
+          last = now
+          k(now)
+        }
+      }))
+      return () => offs.forEach(off => off())
+    },
+    ondiff(k, diff_eq = eq) {
+      let old_value = get()
+      return self.on(new_value => {
+        if (!diff_eq(new_value, old_value)) {
+          k(new_value, old_value)
+          old_value = new_value
+        }
+      })
+    },
+    derive(f, f_eq = root_eq) {
+      return derived(memo([self], f), [self], f_eq, root_eq)
+    }
+  }
+  return self
+}
+
+/** Options for the root store */
+export interface StoreOptions {
+  /** Equality to decide if values have changed, used for all substores too */
+  eq?: Eq<any>
+  /** Handler for exceptions thrown by listeners */
+  on_error?: (e: any) => void
+  /** Maximum number of notification rounds after a top-level set, to detect feedback loops */
+  max_rounds?: number
+  /** Decides when listeners are notified */
+  scheduler?: Scheduler
+}
+
+/** Decides when listeners are notified after sets outside of transactions */
+export interface Scheduler {
+  /** Schedule a flush, which notifies the listeners */
+  schedule(flush: () => void): void
+}
+
+/** Common schedulers */
+export module Scheduler {
+  /** Notify right away */
+  export const sync: Scheduler = {
+    schedule(flush) {
+      flush()
+    }
+  }
+
+  /** Notify in a microtask, after the code that made the sets has finished
+
+  Note: requires `Promise`. */
+  export const microtask: Scheduler = {
+    schedule(flush) {
+      Promise.resolve().then(flush)
+    }
+  }
+
+  /** Notify before the next repaint of the browser */
+  export const animation_frame: Scheduler = {
+    schedule(flush) {
+      window.requestAnimationFrame(flush)
+    }
+  }
+
+  /** A scheduler which is flushed by hand, useful for tests */
+  export interface Manual extends Scheduler {
+    /** Flush everything scheduled so far */
+    flush(): void
+  }
+
+  /** Make a scheduler which only notifies when it is flushed by hand
+
+      const scheduler = Scheduler.manual()
+      const store = Store.init(1, {scheduler})
+      let last
+      store.on(x => last = x)
+      store.set(2)
+      last // => undefined
+      scheduler.flush()
+      last // => 2
 
   */
-  export function def<A>(missing: A): Lens<A | undefined, A> {
-  return iso(
-    a => a === undefined ? missing : a,
-    a => a === missing ? undefined : a)
+  export function manual(): Manual {
+    let queue = [] as (() => void)[]
+    return {
+      schedule(flush) {
+        queue.push(flush)
+      },
+      flush() {
+        const now = queue
+        queue = []
+        now.forEach(flush => flush())
+      }
+    }
+  }
+}
+
+/** Attach a store with a virtual DOM, returning the reattach function for hot module reloading.
+
+The options are used to make the root store, for example with `Scheduler.animation_frame`
+to redraw at most once per frame. */
+export function attach<S, VDOM>(
+    render: (vdom: VDOM) => void,
+    init_state: S,
+    setup_view: (store: Store<S>) => () => VDOM,
+    options: StoreOptions = {}
+  ): (setup_next_view: (store: Store<S>) => () => VDOM) => void {
+  function connect(store: Store<S>, setup_view: (store: Store<S>) => () => VDOM): () => void {
+    const view = setup_view(store)
+    function redraw() {
+      store.transaction(() => {
+        render(view())
+      })
+    }
+    const off = store.on(redraw)
+    redraw()
+    return off
+  }
+
+  let store = Store.init(init_state, options)
+  let off = connect(store, setup_view)
+
+  return setup_next_view => {
+    off()
+    store = Store.init(store.get(), options)
+    off = connect(store, setup_next_view)
+  }
+}
+
+/** A path of keys and indices from the root of some data, such as `['todos', 3, 'text']` */
+export type Path = (string | number)[]
+
+/** A JSON Patch (RFC 6902) operation */
+export interface PatchOperation {
+  readonly op: 'add' | 'remove' | 'replace'
+  /** JSON Pointer (RFC 6901) to where the operation applies */
+  readonly path: string
+  /** The new value (for add and replace) */
+  readonly value?: any
+}
+
+/** The context of an async transaction, see `async_transaction` */
+export interface AsyncContext<S> {
+  /** Get the current value */
+  get(): S
+  /** Make optimistic changes in a transaction: they are reverted if the async transaction fails */
+  optimistic(m: () => void): void
+  /** Set the value optimistically */
+  set(s: S): void
+  /** Modify the value optimistically */
+  modify(f: (s: S) => S): void
+}
+
+/** Options to `async_transaction` */
+export interface AsyncTransactionOptions {
+  /** The label of the transactions of the optimistic changes and of the rollback */
+  label?: string
+  /** Where to keep the status, for example in the state of the app */
+  status?: Store<AsyncStatus>
+}
+
+/** The status of an async transaction */
+export interface AsyncStatus {
+  /** Is it running? */
+  pending: boolean
+  /** The error it failed with */
+  error?: any
+}
+
+/** An async transaction, see `async_transaction` */
+export interface AsyncTransaction<A> {
+  /** The status, which changes when the transaction settles */
+  status: ReadonlyStore<AsyncStatus>
+  /** Settles when the transaction has settled and its changes are kept or reverted */
+  done: Promise<A>
+}
+
+/** A change to the root store by a top-level transaction or a set outside of transactions */
+export interface Change<S> {
+  /** The label of the first labelled transaction in the change */
+  readonly label?: string
+  /** The state before the change */
+  readonly before: S
+  /** The state after the change */
+  readonly after: S
+  /** The patch from before to after */
+  readonly patch: PatchOperation[]
+}
+
+/** Options to `sync_connect` */
+export interface SyncOptions {
+  /** How to merge changes from other instances: the newest state wins (the default), or patches are applied */
+  merge?: 'last_writer_wins' | 'patch'
+  /** The id of this instance (default: a random id) */
+  id?: string
+}
+
+/** A message between instances in `sync_connect` */
+export interface SyncMessage {
+  /** The id of the sender */
+  from: string
+  /** The logical time of the change */
+  time: number
+  /** The state after the change, when the newest state wins */
+  state?: any
+  /** The patch of the change, when patches are applied */
+  patch?: PatchOperation[]
+}
+
+/** A channel to other instances of the app */
+export interface SyncChannel {
+  /** Send a message to the other instances */
+  post(message: SyncMessage): void
+  /** Listen to messages from the other instances, returns the unsubscribe function */
+  on(k: (message: SyncMessage) => void): () => void
+}
+
+/** Common channels */
+export module SyncChannel {
+  /** In-memory channels for tests: each call of the returned function makes
+  a channel to the channels made before and after it. Messages are delivered
+  synchronously. */
+  export function memory(): () => SyncChannel {
+    const channels = ListWithRemove<(message: SyncMessage, sender: {}) => void>()
+    return () => {
+      const self = {}
+      return {
+        post(message) {
+          // copy the list so that channels made while delivering do not get the message
+          const ks = [] as ((message: SyncMessage, sender: {}) => void)[]
+          channels.iter(k => ks.push(k))
+          ks.forEach(k => k(message, self))
+        },
+        on(k) {
+          return channels.push((message, sender) => sender === self || k(message))
+        }
+      }
+    }
+  }
+
+  /** A channel using a `BroadcastChannel` with some name */
+  export function broadcast(name: string): SyncChannel {
+    const channel = new (window as any).BroadcastChannel(name)
+    return {
+      post: message => channel.postMessage(message),
+      on(k) {
+        const listener = (e: MessageEvent) => k(e.data)
+        channel.addEventListener('message', listener)
+        return () => channel.removeEventListener('message', listener)
+      }
+    }
+  }
+
+  /** A channel using `storage` events: messages are written to local storage under a key,
+  and the other windows get a `storage` event */
+  export function storage(
+      key: string = 'sync',
+      api: {
+        set(key: string, data: string): void,
+        listen(k: (key: string | null, data: string | null) => void): () => void
+      } = {
+        set: window.localStorage.setItem.bind(window.localStorage),
+        listen(k) {
+          const listener = (e: StorageEvent) => k(e.key || null, e.newValue || null)
+          window.addEventListener('storage', listener)
+          return () => window.removeEventListener('storage', listener)
+        }
+      }
+    ): SyncChannel
+  {
+    return {
+      post: message => api.set(key, JSON.stringify(message)),
+      on: k => api.listen((changed, data) => {
+        if (changed == key && data) {
+          k(JSON.parse(data))
+        }
+      })
+    }
+  }
+}
+
+/** A location which can be connected to a store with `location_connect` */
+export interface LocationApi {
+  /** The current location */
+  get(): string
+  /** Go to a location */
+  set(location: string): void
+  /** Listen to changes of the location, optionally returning the unsubscribe function */
+  on(k: () => void): void | (() => void)
+}
+
+/** Routing: a table of routes, and locations to connect them to
+
+    type Routes = {home: {}, todos: {filter: string}}
+    const table: Router.Table<Routes> = {home: '/', todos: '/todos/:filter'}
+    const store = Store.init('/todos/active?sort=date')
+    const route = store.via(Router.lens(table))
+    route.get() // => {name: 'todos', params: {filter: 'active'}, query: {sort: 'date'}}
+    route.set({name: 'home', params: {}, query: {}})
+    store.get() // => '/'
+
+Connect the url store to the browser with `Router.connect`. */
+export module Router {
+  /** Parameters of a route, or a query string */
+  export type Params = {[param: string]: string}
+
+  /** A route table: the pattern of each route by its name, such as `'/todo/:id'`,
+  where `:id` is a parameter */
+  export type Table<P extends {[name: string]: Params}> = {[K in keyof P]: string}
+
+  /** A route in a table: its name, parameters and query string */
+  export type Route<P extends {[name: string]: Params}> = {[K in keyof P]: {name: K, params: P[K], query: Params}}[keyof P]
+
+  /** The first route in the table that matches a url, or undefined
+
+      Router.parse({todo: '/todo/:id'}, '/todo/a%20b?x=1&y') // => {name: 'todo', params: {id: 'a b'}, query: {x: '1', y: ''}}
+      Router.parse({todo: '/todo/:id'}, '/todo/1/2') // => undefined
+
+  An empty url is the same as `'/'`. */
+  export function parse<P extends {[name: string]: Params}>(table: Table<P>, url: string): Route<P> | undefined {
+    const i = url.indexOf('?')
+    const path = segments(i == -1 ? url : url.slice(0, i))
+    const query = i == -1 ? {} : parse_query(url.slice(i + 1))
+    const names = Object.keys(table) as (keyof P)[]
+    for (let n = 0; n < names.length; n++) {
+      const params = match(segments(table[names[n]]), path)
+      if (params) {
+        return {name: names[n], params, query} as Route<P>
+      }
+    }
+    return undefined
+  }
+
+  /** The url of a route
+
+      Router.print({todo: '/todo/:id'}, {name: 'todo', params: {id: 'a b'}, query: {x: '1'}}) // => '/todo/a%20b?x=1'
+
+  */
+  export function print<P extends {[name: string]: Params}>(table: Table<P>, route: Route<P>): string {
+    const params = route.params as Params
+    const path = segments(table[route.name]).map(segment =>
+      segment[0] == ':' ? encodeURIComponent(params[segment.slice(1)] || '') : segment)
+    const query = Object.keys(route.query || {}).map(k =>
+      encodeURIComponent(k) + '=' + encodeURIComponent(route.query[k]))
+    return '/' + path.join('/') + (query.length ? '?' + query.join('&') : '')
+  }
+
+  /** A lens from a url to its route in a table, see `parse` and `print`
+
+  Setting undefined leaves the url as it is. */
+  export function lens<P extends {[name: string]: Params}>(table: Table<P>): Lens<string, Route<P> | undefined> {
+    return Lens.lens(
+      url => parse(table, url),
+      (url, route) => route === undefined ? url : print(table, route))
+  }
+
+  /** The location in `window.location.hash`, without the `#` */
+  export function hash_api(): LocationApi {
+    return {
+      get: () => window.location.hash.slice(1),
+      set(url) { window.location.hash = url },
+      on(k) {
+        window.addEventListener('hashchange', k)
+        return () => window.removeEventListener('hashchange', k)
+      }
+    }
+  }
+
+  /** The location in the path and query of `window.location`, using the History API */
+  export function history_api(): LocationApi {
+    return {
+      get: () => window.location.pathname + window.location.search,
+      set(url) { window.history.pushState(null, '', url) },
+      on(k) {
+        window.addEventListener('popstate', k)
+        return () => window.removeEventListener('popstate', k)
+      }
+    }
+  }
+
+  /** Connect a url store with the location in the hash or with the History API,
+  or with another location. Returns the unsubscribe function. */
+  export function connect(
+      store: Store<string>,
+      mode: 'hash' | 'history' = 'hash',
+      api: LocationApi = mode == 'hash' ? hash_api() : history_api()
+    ): () => void
+  {
+    return Store.location_connect(store, () => true, api)
+  }
+
+  /** The non-empty segments of a path */
+  function segments(path: string): string[] {
+    return path.split('/').filter(segment => segment != '')
+  }
+
+  /** The parameters if a path matches a pattern */
+  function match(pattern: string[], path: string[]): Params | undefined {
+    if (pattern.length != path.length) {
+      return undefined
+    }
+    const params = {} as Params
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i][0] == ':') {
+        params[pattern[i].slice(1)] = decodeURIComponent(path[i])
+      } else if (pattern[i] != path[i]) {
+        return undefined
+      }
+    }
+    return params
+  }
+
+  function parse_query(query: string): Params {
+    const params = {} as Params
+    query.split('&').filter(part => part != '').forEach(part => {
+      const i = part.indexOf('=')
+      const k = i == -1 ? part : part.slice(0, i)
+      params[decodeURIComponent(k)] = i == -1 ? '' : decodeURIComponent(part.slice(i + 1).replace(/\+/g, ' '))
+    })
+    return params
+  }
+}
+
+/** A connection to the Redux DevTools extension, as made by its `connect` */
+export interface DevtoolsConnection {
+  /** Start over from some state */
+  init(state: any): void
+  /** Send an action and the state after it, or the whole lifted state with a `null` action */
+  send(action: {type: string, [field: string]: any} | null, state: any): void
+  /** Listen to messages from the extension, optionally returning the unsubscribe function */
+  subscribe(k: (message: DevtoolsMessage) => void): (() => void) | void
+}
+
+/** A message from the Redux DevTools extension */
+export interface DevtoolsMessage {
+  type: string
+  /** The state to jump to, as JSON */
+  state?: string
+  payload?: {
+    type: string
+    /** The action to toggle */
+    id?: number
+    /** The history to import */
+    nextLiftedState?: any
+  }
+}
+
+/** Functions on JSON Patches: arrays of `PatchOperation`s */
+export module Patch {
+  /** Apply patch operations, without mutating the value
+
+      Patch.apply({a: [1, 2], b: 3}, [
+        {op: 'replace', path: '/a/1', value: 4},
+        {op: 'add', path: '/a/-', value: 5},
+        {op: 'remove', path: '/b'}
+      ])
+      // => {a: [1, 4, 5]}
+
+  */
+  export function apply<S>(s: S, ops: PatchOperation[]): S {
+    return ops.reduce((s, op) => apply_at(s, parse(op.path), op), s)
+  }
+
+  /** The JSON Pointer (RFC 6901) for a path
+
+      Patch.pointer(['todos', 3, 'a/b']) // => '/todos/3/a~1b'
+
+  */
+  export function pointer(path: Path): string {
+    return path.map(k => '/' + String(k).replace(/~/g, '~0').replace(/\//g, '~1')).join('')
+  }
+
+  /** A patch from one JSON value to another, diffing objects and arrays structurally
+
+      Patch.diff({a: [1, 2], b: 3, c: 4}, {a: [1, 5, 6], b: 3, d: 7})
+      // => [{op: 'replace', path: '/a/1', value: 5}, {op: 'add', path: '/a/2', value: 6}, {op: 'remove', path: '/c'}, {op: 'add', path: '/d', value: 7}]
+
+  */
+  export function diff(a: any, b: any): PatchOperation[] {
+    const ops = [] as PatchOperation[]
+    diff_at([], a, b, ops)
+    return ops
+  }
+
+  function diff_at(path: Path, a: any, b: any, ops: PatchOperation[]): void {
+    if (a === b) {
+      return
+    }
+    const objects = typeof a == 'object' && typeof b == 'object' && a !== null && b !== null
+    if (!objects || Array.isArray(a) != Array.isArray(b)) {
+      ops.push({op: 'replace', path: pointer(path), value: b})
+    } else if (Array.isArray(a)) {
+      const n = Math.min(a.length, b.length)
+      for (let i = 0; i < n; i++) {
+        diff_at(path.concat([i]), a[i], b[i], ops)
+      }
+      for (let i = n; i < b.length; i++) {
+        ops.push({op: 'add', path: pointer(path.concat([i])), value: b[i]})
+      }
+      for (let i = a.length - 1; i >= n; i--) {
+        ops.push({op: 'remove', path: pointer(path.concat([i]))})
+      }
+    } else {
+      Object.keys(a).forEach(k => {
+        if (!Object.prototype.hasOwnProperty.call(b, k)) {
+          ops.push({op: 'remove', path: pointer(path.concat([k]))})
+        } else {
+          diff_at(path.concat([k]), a[k], b[k], ops)
+        }
+      })
+      Object.keys(b).forEach(k => {
+        if (!Object.prototype.hasOwnProperty.call(a, k)) {
+          ops.push({op: 'add', path: pointer(path.concat([k])), value: b[k]})
+        }
+      })
+    }
+  }
+
+  /** The keys of a JSON Pointer */
+  function parse(pointer: string): string[] {
+    return pointer == '' ? [] : pointer.slice(1).split('/').map(k => k.replace(/~1/g, '/').replace(/~0/g, '~'))
+  }
+
+  function apply_at(s: any, keys: string[], op: PatchOperation): any {
+    if (keys.length == 0) {
+      return op.op == 'remove' ? undefined : op.value
+    }
+    const k = keys[0]
+    if (Array.isArray(s)) {
+      const xs = s.slice()
+      const i = k == '-' ? xs.length : Number(k)
+      if (keys.length > 1 || op.op == 'replace') {
+        xs[i] = apply_at(xs[i], keys.slice(1), op)
+      } else if (op.op == 'add') {
+        xs.splice(i, 0, op.value)
+      } else {
+        xs.splice(i, 1)
+      }
+      return xs
+    } else {
+      const copy = {...s}
+      if (keys.length == 1 && op.op == 'remove') {
+        delete copy[k]
+      } else {
+        copy[k] = apply_at(copy[k], keys.slice(1), op)
+      }
+      return copy
+    }
+  }
+}
+
+/** An equality on values */
+export type Eq<A> = (a: A, b: A) => boolean
+
+/** Common equalities */
+export module Eq {
+  /** Values are equal if they are the same (`===`) */
+  export function identity<A>(a: A, b: A): boolean {
+    return a === b
+  }
+
+  /** Values are equal if they are the same, or are objects (or arrays) with the same keys and the same values
+
+      Eq.shallow({a: 1, b: [2]}, {a: 1, b: [2]}) // => false
+      Eq.shallow([1, 2], [1, 2]) // => true
+
+  */
+  export function shallow<A>(a: A, b: A): boolean {
+    return a === b || same_keys(a, b, (x, y) => x === y)
+  }
+
+  /** Values are equal if they are structurally equal
+
+      Eq.deep({a: 1, b: [2]}, {a: 1, b: [2]}) // => true
+      Eq.deep({a: 1, b: [2]}, {a: 1, b: [3]}) // => false
+
+  Note: only compares plain objects and arrays structurally. */
+  export function deep<A>(a: A, b: A): boolean {
+    return a === b || same_keys(a, b, deep)
+  }
+
+  function same_keys(a: any, b: any, eq: (x: any, y: any) => boolean): boolean {
+    if (!is_plain(a) || !is_plain(b) || Array.isArray(a) != Array.isArray(b)) {
+      return false
+    }
+    const ks = Object.keys(a)
+    return ks.length == Object.keys(b).length &&
+      ks.every(k => Object.prototype.hasOwnProperty.call(b, k) && eq(a[k], b[k]))
+  }
+}
+
+/** A lens: allows you to operate on a subpart `T` of some data `S`
+
+Lenses must conform to these three lens laws:
+
+* `l.get(l.set(s, t)) = t`
+
+* `l.set(s, l.get(s)) = s`
+
+* `l.set(l.set(s, a), b) = l.set(s, b)`
+*/
+export interface Lens<S, T> {
+  /** Get the value via the lens */
+  get(s: S): T,
+
+  /** Set the value via the lens */
+  set(s: S, t: T): S
+
+  /** Where the lens points, if it is known: used for the paths of stores */
+  readonly path?: Path
+}
+
+/** Common lens constructors and functions */
+export module Lens {
+  /** Make a lens from a getter and setter, and optionally the path where it points
+
+  Note: lenses are subject to the three lens laws */
+  export function lens<S, T>(get: (s: S) => T, set: (s: S, t: T) => S, path?: Path): Lens<S, T> {
+    return path ? {get, set, path} : {get, set}
+  }
+
+  /** Lens from a record of lenses
+
+  Note: must not use the same part of the store several times. */
+  export function relabel<S, T>(lenses: {[K in keyof T]: Lens<S, T[K]>}): Lens<S, T> {
+    const keys = Object.keys(lenses) as (keyof T)[]
+    return lens(
+      s => {
+        const ret = {} as T
+        keys.forEach(k => {
+          ret[k] = lenses[k].get(s)
+        })
+        return ret
+      },
+      (s, t) => {
+        let r = s
+        keys.forEach(k => {
+          r = lenses[k].set(r, t[k])
+        })
+        return r
+      })
+  }
+
+  /** Lens to a key in a record
+
+  Note: the key must always be present. */
+  export function at<S, K extends keyof S>(k: K): Lens<S, S[K]> {
+    return lens(
+      s => s[k],
+      (s, v) => ({...(s as any), [k as string]: v}),
+                // unsafe cast // safe cast
+      [k as string])
+  }
+
+  /** Make a lens from an isomorphism.
+
+      const store = Store.init(5)
+      const doubled = store.via(Lens.iso(x => 2 * x, x => x / 2))
+      doubled.get() // => 10
+      doubled.set(50)
+      store.get() // => 25
+      doubled.modify(x => x * 2).get() // => 100
+      store.get() // => 50
+
+  Note: requires that for all `s` and `t` we have `f(g(t)) = t` and `g(f(s)) = s` */
+  export function iso<S, T>(f: (s: S) => T, g: (t: T) => S): Lens<S, T> {
+    return lens(f, (_s: S, t: T) => g(t))
+  }
+
+  /** Lens to a keys in a record
+
+  Note: the keys must always be present. */
+  export function pick<S, Ks extends keyof S>(...keys: Ks[]): Lens<S, {[K in Ks]: S[K]}> {
+    const lenses = {} as {[K in Ks]: Lens<S, S[K]>}
+    keys.forEach((k: Ks) => lenses[k] = at(k))
+    return relabel(lenses)
+  }
+
+  /** Lens to a key in a record which may be missing
+
+  Note: setting the value to undefined removes the key from the record. */
+  export function key<S, K extends keyof S>(k: K): Lens<S, S[K] | undefined> {
+    return lens(
+      x => x[k],
+      (s, v) => {
+        // as string: safe cast
+        // as any: https://github.com/Microsoft/TypeScript/issues/14409
+        if (v === undefined) {
+          const copy = {} as S
+          for (let i in s) {
+            if (i != k) {
+              copy[i] = s[i]
+            }
+          }
+          return copy
+        } else {
+          return {
+            ...(s as any),
+            [k as string]: v
+          }
+        }
+      },
+      [k as string]
+    )
+  }
+
+  /** Lens which refer to a default value instead of undefined
+
+      const store = Store.init({a: 1, b: 2} as Record<string, number>)
+      const a_store = store.via(Lens.key('a')).via(Lens.def(0))
+      a_store.set(3)
+      store.get() // => {a: 3, b: 2}
+      a_store.get() // => 3
+      a_store.set(0)
+      store.get() // => {b: 2}
+      a_store.modify(x => x + 1)
+      store.get() // => {a: 1, b: 2}
+
+  */
+  export function def<A>(missing: A): Lens<A | undefined, A> {
+  return iso(
+    a => a === undefined ? missing : a,
+    a => a === missing ? undefined : a)
+  }
+
+  /** Compose two lenses sequentially */
+  export function seq<S, T, U>(lens1: Lens<S, T>, lens2: Lens<T, U>): Lens<S, U> {
+    return lens(
+      (s: S) => lens2.get(lens1.get(s)),
+      (s: S, u: U) => lens1.set(s, lens2.set(lens1.get(s), u)),
+      lens1.path && lens2.path && lens1.path.concat(lens2.path)
+    )
+  }
+
+  /** Make a lens which omits some keys */
+  export function omit<S, K extends keyof S>(...ks: K[]): Lens<S, Omit<S, K>> {
+    const curry = (s: S) => {
+      const all_keys = Object.keys(s) as (keyof S)[]
+      const picked = all_keys.filter(x => -1 == ks.indexOf(x as K))
+      return (Lens.pick as any)(...picked)
+    }
+    return Lens.lens((s) => curry(s).get(s), (s, t) => curry(s).set(s, t))
+  }
+
+
+  /** Partial lens to a particular index in an array
+
+      const store = Store.init([0, 1, 2, 3])
+      const first = store.via(Lens.index(0))
+      first.get() // => 0
+      first.set(99)
+      store.get() // => [99, 1, 2, 3]
+
+  Note: an exception is thrown if you look outside the array. */
+  export function index<A>(i: number): Lens<A[], A> {
+    const within = (xs: A[]) => {
+      if (i < 0 || i >= xs.length) {
+        throw 'Out of bounds'
+      }
+    }
+    return lens(
+      xs => (within(xs), xs[i]),
+      (xs, x) => {
+        within(xs)
+        const ys = xs.slice()
+        ys[i] = x
+        return ys
+      },
+      [i])
+  }
+
+  /** Partial lens to the element in an array with a particular key
+
+      const store = Store.init([{id: 1, v: 'a'}, {id: 2, v: 'b'}])
+      const two = store.via(Lens.by_key(x => x.id, 2))
+      two.get() // => {id: 2, v: 'b'}
+      store.modify(xs => xs.slice().reverse())
+      two.at('v').set('c')
+      store.get() // => [{id: 2, v: 'c'}, {id: 1, v: 'a'}]
+
+  Note: an exception is thrown if there is no element with the key. */
+  export function by_key<A, K>(key_fn: (a: A) => K, key: K): Lens<A[], A> {
+    const find = (xs: A[]) => {
+      const i = find_index(xs, x => key_fn(x) === key)
+      if (i == -1) {
+        throw 'Missing key'
+      }
+      return i
+    }
+    return lens(
+      xs => xs[find(xs)],
+      (xs, x) => {
+        const ys = xs.slice()
+        ys[find(xs)] = x
+        return ys
+      })
+  }
+
+  /** Traversal to all elements in an array
+
+      Lens.all<number>().modify([1, 2, 3], x => x * 2) // => [2, 4, 6]
+
+  */
+  export function all<A>(): Traversal<A[], A> {
+    return Traversal.traversal(
+      xs => xs,
+      (xs, f) => xs.map(x => f(x)))
+  }
+
+  /** Traversal to all values in a record
+
+      Lens.values<number>().get_all({a: 1, b: 2}) // => [1, 2]
+      Lens.values<number>().modify({a: 1, b: 2}, x => x + 1) // => {a: 2, b: 3}
+
+  */
+  export function values<A>(): Traversal<Record<string, A>, A> {
+    return Traversal.traversal(
+      r => Object.keys(r).map(k => r[k]),
+      (r, f) => {
+        const copy = {} as Record<string, A>
+        Object.keys(r).forEach(k => copy[k] = f(r[k]))
+        return copy
+      })
+  }
+
+  /** Traversal to the value itself if it satisfies a predicate
+
+      const evens = Traversal.seq(Lens.all<number>(), Lens.filtered((x: number) => x % 2 == 0))
+      evens.get_all([1, 2, 3, 4]) // => [2, 4]
+      evens.modify([1, 2, 3, 4], x => x * 10) // => [1, 20, 3, 40]
+
+  Note: the modifying function must not change whether the predicate holds,
+  otherwise the traversal laws are broken. */
+  export function filtered<A>(pred: (a: A) => boolean): Traversal<A, A> {
+    return Traversal.traversal(
+      a => pred(a) ? [a] : [],
+      (a, f) => pred(a) ? f(a) : a)
+  }
+}
+
+/** A prism: allows you to operate on a subpart `T` of some data `S`
+which might not be there, such as one variant of a tagged union
+
+Prisms must conform to these laws:
+
+* `p.preview(p.set(s, t)) = t` if `p.preview(s) !== undefined`
+
+* `p.set(s, t) = s` if `p.preview(s) === undefined`
+
+* `p.set(s, p.preview(s)) = s` if `p.preview(s) !== undefined`
+
+* `p.set(p.set(s, a), b) = p.set(s, b)`
+*/
+export interface Prism<S, T> {
+  /** Get the value via the prism, or undefined if it is not there */
+  preview(s: S): T | undefined,
+
+  /** Set the value via the prism (does nothing if it is not there) */
+  set(s: S, t: T): S
+}
+
+/** Common prism constructors and functions */
+export module Prism {
+  /** Make a prism from a partial getter and a setter
+
+  Note: prisms are subject to the prism laws */
+  export function prism<S, T>(preview: (s: S) => T | undefined, set: (s: S, t: T) => S): Prism<S, T> {
+    return {preview, set}
+  }
+
+  /** Make a prism from a lens (which is always there) */
+  export function from_lens<S, T>(lens: Lens<S, T>): Prism<S, T> {
+    return prism(lens.get, lens.set)
+  }
+
+  /** Prism to the values satisfying a type guard
+
+      type Remote = {tag: 'loading'} | {tag: 'loaded', data: number}
+      const loaded = Prism.when((r: Remote): r is {tag: 'loaded', data: number} => r.tag == 'loaded')
+      loaded.preview({tag: 'loading'}) // => undefined
+      loaded.preview({tag: 'loaded', data: 1}) // => {tag: 'loaded', data: 1}
+
+  */
+  export function when<S, T extends S>(guard: (s: S) => s is T): Prism<S, T> {
+    return prism(
+      s => guard(s) ? s : undefined,
+      (s, t) => guard(s) ? t : s)
+  }
+
+  /** Prism to the variant of a tagged union with a particular tag
+
+      type Remote = {tag: 'loading'} | {tag: 'loaded', data: number}
+      const loaded = Prism.tag<Remote, {tag: 'loaded', data: number}>('tag', 'loaded')
+      loaded.set({tag: 'loading'}, {tag: 'loaded', data: 1}) // => {tag: 'loading'}
+      loaded.set({tag: 'loaded', data: 1}, {tag: 'loaded', data: 2}) // => {tag: 'loaded', data: 2}
+
+  */
+  export function tag<S, T extends S>(k: keyof S & keyof T, v: T[keyof S & keyof T]): Prism<S, T> {
+    return when((s: S): s is T => (s as any)[k] === v)
+  }
+
+  /** Prism to a value which is not undefined */
+  export function defined<A>(): Prism<A | undefined, A> {
+    return prism(
+      a => a,
+      (a, b) => a === undefined ? a : b)
+  }
+
+  /** Prism to a key in a record which may be missing
+
+      const p = Prism.key<Record<string, number>, string>('a')
+      p.preview({b: 2}) // => undefined
+      p.set({b: 2}, 1) // => {b: 2}
+      p.set({a: 0, b: 2}, 1) // => {a: 1, b: 2}
+
+  */
+  export function key<S, K extends keyof S>(k: K): Prism<S, S[K]> {
+    return prism(
+      s => s[k],
+      (s, v) => s[k] === undefined ? s : {...(s as any), [k as string]: v})
+  }
+
+  /** Prism to a particular index in an array
+
+      const p = Prism.index<string>(1)
+      p.preview(['a']) // => undefined
+      p.set(['a'], 'b') // => ['a']
+      p.set(['a', 'b'], 'c') // => ['a', 'c']
+
+  Unlike `Lens.index`, no exception is thrown when looking outside the array. */
+  export function index<A>(i: number): Prism<A[], A> {
+    const within = (xs: A[]) => i >= 0 && i < xs.length
+    return prism(
+      xs => within(xs) ? xs[i] : undefined,
+      (xs, x) => {
+        if (within(xs)) {
+          const ys = xs.slice()
+          ys[i] = x
+          return ys
+        } else {
+          return xs
+        }
+      })
+  }
+
+  /** Prism to the element in an array with a particular key
+
+      const p = Prism.by_key((x: {id: number}) => x.id, 2)
+      p.preview([{id: 1}]) // => undefined
+      p.preview([{id: 1}, {id: 2}]) // => {id: 2}
+
+  Unlike `Lens.by_key`, no exception is thrown when the key is missing. */
+  export function by_key<A, K>(key_fn: (a: A) => K, key: K): Prism<A[], A> {
+    return prism(
+      xs => {
+        const i = find_index(xs, x => key_fn(x) === key)
+        return i == -1 ? undefined : xs[i]
+      },
+      (xs, x) => {
+        const i = find_index(xs, x => key_fn(x) === key)
+        if (i == -1) {
+          return xs
+        } else {
+          const ys = xs.slice()
+          ys[i] = x
+          return ys
+        }
+      })
+  }
+
+  /** Compose two prisms sequentially (either can also be a lens)
+
+      type Remote = {tag: 'loading'} | {tag: 'loaded', data: number}
+      const data = Prism.seq(
+        Prism.tag<Remote, {tag: 'loaded', data: number}>('tag', 'loaded'),
+        Lens.at<{tag: 'loaded', data: number}, 'data'>('data'))
+      data.preview({tag: 'loaded', data: 1}) // => 1
+      data.preview({tag: 'loading'}) // => undefined
+
+  */
+  export function seq<S, T, U>(p1: Prism<S, T> | Lens<S, T>, p2: Prism<T, U> | Lens<T, U>): Prism<S, U> {
+    const q1 = to_prism(p1)
+    const q2 = to_prism(p2)
+    return prism(
+      (s: S) => {
+        const t = q1.preview(s)
+        return t === undefined ? undefined : q2.preview(t)
+      },
+      (s: S, u: U) => {
+        const t = q1.preview(s)
+        return t === undefined ? s : q1.set(s, q2.set(t, u))
+      })
+  }
+
+  function to_prism<S, T>(p: Prism<S, T> | Lens<S, T>): Prism<S, T> {
+    return 'preview' in p ? p as Prism<S, T> : from_lens(p as Lens<S, T>)
+  }
+}
+
+/** A traversal: allows you to operate on many subparts `T` of some data `S` at once
+
+Traversals must conform to these laws:
+
+* `t.modify(s, x => x) = s`
+
+* `t.modify(t.modify(s, f), g) = t.modify(s, x => g(f(x)))`
+*/
+export interface Traversal<S, T> {
+  /** Get all the values via the traversal */
+  get_all(s: S): T[],
+
+  /** Modify all the values via the traversal */
+  modify(s: S, f: (t: T) => T): S
+}
+
+/** Common traversal constructors and functions
+
+See also `Lens.all`, `Lens.values` and `Lens.filtered`. */
+export module Traversal {
+  /** Make a traversal from a getter and a modifier
+
+  Note: traversals are subject to the traversal laws */
+  export function traversal<S, T>(get_all: (s: S) => T[], modify: (s: S, f: (t: T) => T) => S): Traversal<S, T> {
+    return {get_all, modify}
+  }
+
+  /** Make a traversal from a lens (which has exactly one target) */
+  export function from_lens<S, T>(lens: Lens<S, T>): Traversal<S, T> {
+    return traversal(
+      s => [lens.get(s)],
+      (s, f) => lens.set(s, f(lens.get(s))))
+  }
+
+  /** Make a traversal from a prism (which has at most one target) */
+  export function from_prism<S, T>(prism: Prism<S, T>): Traversal<S, T> {
+    return traversal(
+      s => {
+        const t = prism.preview(s)
+        return t === undefined ? [] : [t]
+      },
+      (s, f) => {
+        const t = prism.preview(s)
+        return t === undefined ? s : prism.set(s, f(t))
+      })
+  }
+
+  /** Compose two traversals sequentially (either can also be a lens or a prism)
+
+      const every_todo = Traversal.seq(
+        Traversal.seq(Lens.all<{todos: string[]}>(), Lens.at<{todos: string[]}, 'todos'>('todos')),
+        Lens.all<string>())
+      const lists = [{todos: ['a', 'b']}, {todos: ['c']}]
+      every_todo.get_all(lists) // => ['a', 'b', 'c']
+      every_todo.modify(lists, s => s.toUpperCase()) // => [{todos: ['A', 'B']}, {todos: ['C']}]
+
+  */
+  export function seq<S, T, U>(
+      t1: Traversal<S, T> | Prism<S, T> | Lens<S, T>,
+      t2: Traversal<T, U> | Prism<T, U> | Lens<T, U>): Traversal<S, U> {
+    const u1 = to_traversal(t1)
+    const u2 = to_traversal(t2)
+    return traversal(
+      s => {
+        const us = [] as U[]
+        u1.get_all(s).forEach(t => us.push(...u2.get_all(t)))
+        return us
+      },
+      (s, f) => u1.modify(s, t => u2.modify(t, f)))
+  }
+
+  function to_traversal<S, T>(t: Traversal<S, T> | Prism<S, T> | Lens<S, T>): Traversal<S, T> {
+    if ('modify' in t) {
+      return t as Traversal<S, T>
+    } else if ('preview' in t) {
+      return from_prism(t as Prism<S, T>)
+    } else {
+      return from_lens(t as Lens<S, T>)
+    }
+  }
+}
+
+/** History zipper functions
+
+    const {undo, redo, advance, advance_to} = Undo
+    const store = Store.init(Undo.init({a: 1, b: 2}))
+    const modify = op => store.modify(op)
+    const now = store.at('now')
+    now.get() // => {a: 1, b: 2}
+    modify(advance_to({a: 3, b: 4}))
+    now.get() // => {a: 3, b: 4}
+    modify(undo)
+    now.get() // => {a: 1, b: 2}
+    modify(redo)
+    now.get() // => {a: 3, b: 4}
+    modify(advance)
+    now.update({a: 5})
+    now.get() // => {a: 5, b: 4}
+    modify(undo)
+    now.get() // => {a: 3, b: 4}
+    modify(undo)
+    now.get() // => {a: 1, b: 2}
+    modify(undo)
+    now.get() // => {a: 1, b: 2}
+
+*/
+export module Undo {
+  /** Undo iff there is a past */
+  export function undo<S>(h: Undo<S>): Undo<S> {
+    if (h.prev != null) {
+      return {
+        now: h.prev.top,
+        prev: h.prev.pop,
+        next: {top: h.now, pop: h.next}
+      }
+    } else {
+      return h
+    }
+  }
+
+  /** Redo iff there is a future */
+  export function redo<S>(h: Undo<S>): Undo<S> {
+    if (h.next != null) {
+      return {
+        now: h.next.top,
+        prev: {top: h.now, pop: h.prev},
+        next: h.next.pop
+      }
+    } else {
+      return h
+    }
+  }
+
+  /** Advances the history by copying the present state */
+  export function advance<S>(h: Undo<S>): Undo<S> {
+    return {
+      now: h.now,
+      prev: {top: h.now, pop: h.prev},
+      next: null
+    }
+  }
+
+  /** Initialise the history */
+  export function init<S>(now: S): Undo<S> {
+    return {
+      now,
+      prev: null,
+      next: null
+    }
+  }
+
+  /** Advances the history to some new state */
+  export function advance_to<S>(s: S): (h: Undo<S>) => Undo<S> {
+    return h => Lens.at<typeof h, 'now'>('now').set(advance(h), s)
+  }
+
+  /** Is there a state to undo to? */
+  export function can_undo<S>(h: Undo<S>): boolean {
+    return h.prev != null
+  }
+
+  /** Is there a state to redo to? */
+  export function can_redo<S>(h: Undo<S>): boolean {
+    return h.next != null
+  }
+
+  /** A history in a flat format: the oldest state, followed by the patches to each next state */
+  export interface Encoded {
+    /** The oldest state */
+    base: any
+    /** The patches from each state to the next, oldest first */
+    deltas: PatchOperation[][]
+    /** The index of the present state, 0 for the oldest */
+    now: number
+  }
+
+  /** Encode a history in a flat format which stores the differences between consecutive states
+
+      const h = Undo.undo(Undo.advance_to({a: 1, b: 2})(Undo.init({a: 1, b: 1})))
+      Undo.encode(h)
+      // => {base: {a: 1, b: 1}, deltas: [[{op: 'replace', path: '/b', value: 2}]], now: 0}
+      Undo.decode(Undo.encode(h)) // => h
+
+  The states should be JSON values. */
+  export function encode<S>(h: Undo<S>): Encoded {
+    const past = [] as S[]
+    for (let stack = h.prev; stack != null; stack = stack.pop) {
+      past.unshift(stack.top)
+    }
+    const states = past.concat([h.now])
+    for (let stack = h.next; stack != null; stack = stack.pop) {
+      states.push(stack.top)
+    }
+    return {
+      base: states[0],
+      deltas: states.slice(1).map((s, i) => Patch.diff(states[i], s)),
+      now: past.length
+    }
+  }
+
+  /** Decode a history from `encode`. Unchanged parts are shared between consecutive states. */
+  export function decode<S>(e: Encoded): Undo<S> {
+    const states = [e.base as S]
+    e.deltas.forEach(ops => states.push(Patch.apply(states[states.length - 1], ops)))
+    let prev: null | Stack<S> = null
+    for (let i = 0; i < e.now; i++) {
+      prev = {top: states[i], pop: prev}
+    }
+    let next: null | Stack<S> = null
+    for (let i = states.length - 1; i > e.now; i--) {
+      next = {top: states[i], pop: next}
+    }
+    return {now: states[e.now], prev, next}
+  }
+
+  /** A codec for histories using `encode` and `decode`, to use with `storage_connect` */
+  export function codec<S>(): Codec<Undo<S>> {
+    return {encode, decode}
+  }
+
+  /** Options to `track` */
+  export interface TrackOptions {
+    /** How to coalesce changes into history entries: one entry for each
+    transaction (the default), or one entry for changes which follow each
+    other within a number of milliseconds */
+    coalesce?: 'transaction' | number
+    /** The maximum number of entries to keep in the past, the oldest are dropped */
+    max?: number
+    /** Paths below `now` which are not part of the history: changes to them
+    make no entries, and undoing and redoing keeps their current values */
+    exclude?: Path[]
+    /** The clock for coalescing, in milliseconds (default: `Date.now`) */
+    clock?: () => number
+  }
+
+  /** The functions to navigate a tracked history, see `track` */
+  export interface Tracker {
+    /** Undo iff there is a past */
+    undo(): void
+    /** Redo iff there is a future */
+    redo(): void
+    /** Is there a state to undo to? */
+    can_undo: ReadonlyStore<boolean>
+    /** Is there a state to redo to? */
+    can_redo: ReadonlyStore<boolean>
+    /** Stop tracking */
+    stop(): void
+  }
+
+  /** Track the changes of the present state, advancing the history by itself
+
+      const store = Store.init(Undo.init({text: '', editing: false}))
+      const history = Undo.track(store, {exclude: [['editing']]})
+      const now = store.at('now')
+      now.update({text: 'hello'})
+      now.update({editing: true})
+      history.can_undo.get() // => true
+      history.undo()
+      now.get() // => {text: '', editing: true}
+      history.can_redo.get() // => true
+      history.redo()
+      now.get() // => {text: 'hello', editing: true}
+
+  Modifying the history by other means, such as `Undo.undo` or `Undo.advance`,
+  is not tracked as a change. The entries follow the changes of the root
+  store (see `on_change`), so transactions get entries of their own also when
+  the store has a scheduler. */
+  export function track<S>(store: Store<Undo<S>>, options: TrackOptions = {}): Tracker {
+    const exclude = options.exclude || []
+    const clock = options.clock || Date.now
+    /** The history with the entry made last, whose change makes no entry */
+    let own: Undo<S> | undefined
+    let last_time: number | undefined
+    const off = store.on_change(change => {
+      const prev = store.from_root(change.before)
+      const h = store.from_root(change.after)
+      if (h === prev || h === own) {
+        // a change elsewhere, or our own entry
+        return
+      }
+      if (h.prev !== prev.prev || h.next !== prev.next || h.now === prev.now) {
+        // the history was navigated, or only the past and future changed
+        last_time = undefined
+        return
+      }
+      if (exclude.length > 0 && Eq.deep(keep_paths(exclude, prev.now, h.now), prev.now)) {
+        // only excluded paths changed
+        return
+      }
+      const time = clock()
+      const coalesce = typeof options.coalesce == 'number' &&
+        last_time !== undefined && time - last_time < options.coalesce
+      last_time = time
+      // the history may have changed again since this change
+      const current = store.get()
+      own = {
+        now: current.now,
+        prev: coalesce ? current.prev : take({top: prev.now, pop: current.prev}, options.max),
+        next: null
+      }
+      store.set(own)
+    })
+    const navigate = (f: (h: Undo<S>) => Undo<S>) => () => {
+      store.modify(h => {
+        const h2 = f(h)
+        return h2 === h ? h : {...h2, now: keep_paths(exclude, h.now, h2.now)}
+      })
+    }
+    return {
+      undo: navigate(undo),
+      redo: navigate(redo),
+      can_undo: store.derive(can_undo),
+      can_redo: store.derive(can_redo),
+      stop: off
+    }
+  }
+
+  /** The first entries of a stack */
+  function take<S>(stack: null | Stack<S>, n: number | undefined): null | Stack<S> {
+    if (n === undefined || stack == null) {
+      return stack
+    } else if (n <= 0) {
+      return null
+    } else {
+      return {top: stack.top, pop: take(stack.pop, n - 1)}
+    }
+  }
+
+  /** Copy the values at some paths from one value into another */
+  function keep_paths<S>(paths: Path[], from: S, into: S): S {
+    return Patch.apply(into, paths.map(path => {
+      const value = path.reduce((x: any, k) => x == null ? undefined : x[k], from)
+      return value === undefined
+        ? {op: 'remove' as 'remove', path: Patch.pointer(path)}
+        : {op: 'replace' as 'replace', path: Patch.pointer(path), value}
+    }))
+  }
+}
+
+/** History zipper */
+export interface Undo<S> {
+  readonly now: S
+  readonly prev: null | Stack<S>,
+  readonly next: null | Stack<S>,
+}
+
+/** A non-empty stack */
+export interface Stack<S> {
+  readonly top: S
+  readonly pop: null | Stack<S>
+}
+
+/** History tree functions: like the `Undo` zipper, but editing after undoing
+makes a new branch instead of dropping the future
+
+    const {undo, redo, advance_to, branches} = UndoTree
+    const store = Store.init(UndoTree.init({a: 1}, 0))
+    const now = store.at('now')
+    store.modify(advance_to({a: 2}, 1))
+    store.modify(undo)
+    now.get() // => {a: 1}
+    store.modify(advance_to({a: 3}, 2))
+    store.modify(undo)
+    branches(store.get()).map(node => node.state) // => [{a: 2}, {a: 3}]
+    store.modify(redo)
+    now.get() // => {a: 3}
+    store.modify(undo)
+    store.modify(h => redo(h, 0))
+    now.get() // => {a: 2}
+    store.modify(h => UndoTree.jump_to_time(h, 0))
+    now.get() // => {a: 1}
+
+The present state can be edited in place via `store.at('now')`: the edits
+are committed as a new node when advancing, undoing or jumping.
+
+    now.set({a: 4})
+    store.modify(undo)
+    now.get() // => {a: 1}
+    store.get().nodes.length // => 4
+
+*/
+export module UndoTree {
+  /** A node in the history tree */
+  export interface Node<S> {
+    readonly id: number
+    readonly state: S
+    readonly parent: number | null
+    /** The ids of the children, oldest first */
+    readonly children: number[]
+    /** When the node was made, in milliseconds */
+    readonly time: number
+  }
+
+  /** Initialise the history */
+  export function init<S>(now: S, time: number = Date.now()): UndoTree<S> {
+    return {
+      now,
+      current: 0,
+      nodes: [{id: 0, state: now, parent: null, children: [], time}]
+    }
+  }
+
+  /** Commit the present state as a new child of the current node, unless it is already committed */
+  export function advance<S>(h: UndoTree<S>, time: number = Date.now()): UndoTree<S> {
+    const node = h.nodes[h.current]
+    if (h.now === node.state) {
+      return h
+    }
+    const id = h.nodes.length
+    const nodes = h.nodes.slice()
+    nodes[node.id] = {...node, children: node.children.concat([id])}
+    nodes.push({id, state: h.now, parent: node.id, children: [], time})
+    return {now: h.now, current: id, nodes}
+  }
+
+  /** Advances the history to some new state */
+  export function advance_to<S>(s: S, time: number = Date.now()): (h: UndoTree<S>) => UndoTree<S> {
+    return h => advance({...h, now: s}, time)
+  }
+
+  /** Undo iff there is a parent */
+  export function undo<S>(h: UndoTree<S>): UndoTree<S> {
+    const committed = advance(h)
+    const parent = committed.nodes[committed.current].parent
+    return parent == null ? committed : jump(committed, parent)
+  }
+
+  /** Redo to a branch, by default the newest, iff there are children */
+  export function redo<S>(h: UndoTree<S>, branch?: number): UndoTree<S> {
+    const committed = advance(h)
+    const children = committed.nodes[committed.current].children
+    const id = children[branch === undefined ? children.length - 1 : branch]
+    return id === undefined ? committed : jump(committed, id)
+  }
+
+  /** The children of the current node, the branches to redo to */
+  export function branches<S>(h: UndoTree<S>): Node<S>[] {
+    return h.nodes[h.current].children.map(id => h.nodes[id])
+  }
+
+  /** Jump to the node with some id */
+  export function jump<S>(h: UndoTree<S>, id: number): UndoTree<S> {
+    const committed = advance(h)
+    const node = committed.nodes[id]
+    if (node === undefined) {
+      throw 'Out of bounds'
+    }
+    return {now: node.state, current: id, nodes: committed.nodes}
+  }
+
+  /** Jump to the newest node made at or before some time, or the first node if there is none */
+  export function jump_to_time<S>(h: UndoTree<S>, time: number): UndoTree<S> {
+    const node = h.nodes.reduce((best, node) => node.time <= time && node.time >= best.time ? node : best, h.nodes[0])
+    return jump(h, node.id)
+  }
+
+  /** Is there a state to undo to? */
+  export function can_undo<S>(h: UndoTree<S>): boolean {
+    return h.nodes[h.current].parent != null || h.now !== h.nodes[h.current].state
+  }
+
+  /** Is there a state to redo to? */
+  export function can_redo<S>(h: UndoTree<S>): boolean {
+    return h.nodes[h.current].children.length > 0 && h.now === h.nodes[h.current].state
+  }
+
+  /** Make a history tree from a history zipper: a single branch with the past,
+  the present and the future
+
+      const h = UndoTree.from_undo(Undo.redo(Undo.undo(Undo.advance_to(2)(Undo.init(1)))), 0)
+      h.nodes.map(node => node.state) // => [1, 2]
+      h.now // => 2
+
+  */
+  export function from_undo<S>(u: Undo<S>, time: number = Date.now()): UndoTree<S> {
+    const past = [] as S[]
+    for (let stack = u.prev; stack != null; stack = stack.pop) {
+      past.unshift(stack.top)
+    }
+    const future = [] as S[]
+    for (let stack = u.next; stack != null; stack = stack.pop) {
+      future.push(stack.top)
+    }
+    const states = past.concat([u.now], future)
+    return {
+      now: u.now,
+      current: past.length,
+      nodes: states.map((state, id) => ({
+        id,
+        state,
+        parent: id == 0 ? null : id - 1,
+        children: id == states.length - 1 ? [] : [id + 1],
+        time
+      }))
+    }
+  }
+}
+
+/** History tree */
+export interface UndoTree<S> {
+  /** The present state */
+  readonly now: S
+  /** The id of the node the present state was last committed to or jumped to */
+  readonly current: number
+  /** The nodes, indexed by their id */
+  readonly nodes: UndoTree.Node<S>[]
+}
+
+/** Record the changes of a root store for time-travel debugging
+
+    const store = Store.init({count: 0})
+    const recorder = Recorder.record(store)
+    store.transaction('increment', () => store.at('count').modify(x => x + 1))
+    store.transaction('double', () => store.at('count').modify(x => x * 2))
+    recorder.entries().map(e => e.label) // => ['increment', 'double']
+    recorder.jump(1)
+    store.get() // => {count: 1}
+    recorder.position() // => 1
+    recorder.jump(0)
+    store.get() // => {count: 0}
+
+Replaying jumps to a position and re-applies the recorded patches after it,
+in transactions with the same labels:
+
+    recorder.replay(0)
+    store.get() // => {count: 2}
+    recorder.entries().map(e => e.label) // => ['increment', 'double']
+
+A recording can be exported to JSON and imported in another session:
+
+    const other = Store.init({count: 0})
+    Recorder.record(other).import_json(recorder.export_json())
+    other.get() // => {count: 2}
+
+*/
+export module Recorder {
+  /** Options to `record` */
+  export interface Options {
+    /** The maximum number of entries to keep, the oldest are dropped (default 100) */
+    max?: number
+  }
+
+  /** Start recording the changes of a root store */
+  export function record<S>(store: Store<S>, options: Options = {}): Recorder<S> {
+    const max = options.max === undefined ? 100 : options.max
+    let initial = store.get()
+    let entries = [] as Change<S>[]
+    let position = 0
+    let jumping = false
+    let off = store.on_change(change => {
+      if (!jumping) {
+        entries = entries.slice(0, position).concat([change])
+        if (entries.length > max) {
+          const dropped = entries.length - max
+          initial = entries[dropped - 1].after
+          entries = entries.slice(dropped)
+        }
+        position = entries.length
+      }
+    })
+    function state_at(i: number): S {
+      return i == 0 ? initial : entries[i - 1].after
+    }
+    function jump(i: number): void {
+      // record the changes not yet notified first, so that they are not lost
+      store.flush()
+      if (i < 0 || i > entries.length) {
+        throw 'Out of bounds'
+      }
+      position = i
+      jumping = true
+      try {
+        store.set(state_at(i))
+        store.flush()
+      } finally {
+        jumping = false
+      }
+    }
+    function replay(from: number): void {
+      const later = entries.slice(from)
+      jump(from)
+      later.forEach(entry => {
+        const apply = () => store.modify(s => Patch.apply(s, entry.patch))
+        if (entry.label === undefined) {
+          store.transaction(apply)
+        } else {
+          store.transaction(entry.label, apply)
+        }
+        store.flush()
+      })
+    }
+    return {
+      entries: () => entries,
+      position: () => position,
+      jump,
+      replay,
+      export_json: () => JSON.stringify({initial, entries, position}),
+      import_json(json: string) {
+        const imported = JSON.parse(json)
+        store.flush()
+        initial = imported.initial
+        entries = imported.entries
+        jump(imported.position)
+      },
+      stop() {
+        off()
+        off = () => undefined
+      }
+    }
+  }
+}
+
+/** A recording of the changes of a store, see `Recorder.record` */
+export interface Recorder<S> {
+  /** The recorded changes, oldest first */
+  entries(): Change<S>[]
+  /** The number of entries the current state is at, from 0 (before the first entry) to the number of entries */
+  position(): number
+  /** Set the state to the state at some position, without recording it.
+
+  A later change will be recorded after this position, discarding the entries after it.
+  Not to be called in a transaction or listener. */
+  jump(position: number): void
+  /** Jump to some position and re-apply the patches of the entries after it */
+  replay(from: number): void
+  /** The recording as JSON */
+  export_json(): string
+  /** Replace the recording with one from `export_json` and jump to its position */
+  import_json(json: string): void
+  /** Stop recording */
+  stop(): void
+}
+
+/** The parts of a store shared by all its substores */
+interface Root {
+  /** Run a transaction, optionally labelled */
+  transact(m: () => void, label?: string): void
+  /** Run a transaction, giving the patch operations of its sets to k before the listeners are notified */
+  capture(m: () => void, k: (captured: PatchOperation[]) => void, label?: string): void
+  /** Get the state of the root store */
+  get(): any
+  /** Set the state of the root store */
+  set(s: any): void
+  /** Make a set at a path (if known), recording it as a patch operation */
+  patch(path: Path | undefined, old: any, value: any, m: () => void): void
+  /** Add a change listener, returns the unsubscribe function */
+  on_change(k: (change: Change<any>) => void): () => void
+  /** Notify the listeners now if applicable */
+  flush(): void
+  /** Add a listener to the store with some focus, returns the unsubscribe function */
+  listen(focus: Focus, k: () => void, name?: string): () => void
+  /** The focus of the root store */
+  readonly focus: Focus
+  /** Equality to decide if values have changed */
+  readonly eq: Eq<any>
+}
+
+/** Where a store is focused, relative to the store it was made from */
+interface Focus {
+  /** The focus of the parent store, null for the root */
+  readonly parent: Focus | null
+  /** Identifies this focus among its siblings: the key for at, otherwise unique */
+  readonly id: string
+  /** Get the value from the value of the parent store */
+  readonly get: (parent_value: any) => any
+  /** The path from the root store, if it is known */
+  readonly path?: Path
+}
+
+let next_focus_id = 0
+
+/** Make a focus below some parent, anonymous unless a key is given,
+with a known path if the path relative to the parent is known */
+function sub_focus(parent: Focus, get: (parent_value: any) => any, key?: string, path?: Path): Focus {
+  const id = key === undefined ? '#' + next_focus_id++ : '.' + key
+  return {parent, id, get, path: parent.path && path && parent.path.concat(path)}
+}
+
+/** A node in the listener tree */
+interface ListenerNode {
+  /** The value when the listeners were last run */
+  last: any
+  /** Number of listeners in this subtree */
+  size: number
+  readonly listeners: ListWithRemove<() => void>
+  /** Children by the id of their focus */
+  readonly children: Record<string, ListenerNode>
+  /** Children in the order they were made */
+  readonly child_list: ListWithRemove<{focus: Focus, node: ListenerNode}>
+  /** Remove this node from its parent */
+  remove(): void
+}
+
+/** Tree of listeners with a node for each focus that has listeners in its subtree
+
+Notifying only visits the subtrees whose values have changed.
+Exceptions from listeners (and from getting the values) are passed to `on_error`. */
+function ListenerTree(get_state: () => any, eq: Eq<any>, on_error: (e: any) => void) {
+  const node = (last: any): ListenerNode => ({
+    last,
+    size: 0,
+    listeners: ListWithRemove<() => void>(),
+    children: {},
+    child_list: ListWithRemove<{focus: Focus, node: ListenerNode}>(),
+    remove() { }
+  })
+  const root = node(undefined)
+  /** Description of the listener that is running */
+  let running: string | undefined
+  /** The state when the listeners were last notified: new nodes start from
+  it, so that their listeners are notified of the changes not yet notified */
+  let notified = get_state()
+
+  /** The nodes from the root to the focus, making those that are missing */
+  function path_to(focus: Focus): ListenerNode[] {
+    if (!focus.parent) {
+      return [root]
+    }
+    const path = path_to(focus.parent)
+    const parent = path[path.length - 1]
+    let child = parent.children[focus.id]
+    if (!child) {
+      const made = child = node(focus_value(focus, notified))
+      parent.children[focus.id] = made
+      const remove = parent.child_list.push({focus, node: made})
+      made.remove = () => {
+        delete parent.children[focus.id]
+        remove()
+      }
+    }
+    path.push(child)
+    return path
+  }
+
+  function visit(n: ListenerNode, value: any, force: boolean): void {
+    if (force || !eq(value, n.last)) {
+      n.last = value
+      n.listeners.iter(k => attempt(k))
+      n.child_list.iter(c => attempt(() => visit(c.node, c.focus.get(value), false)))
+    }
+  }
+
+  function attempt(m: () => void): void {
+    try {
+      m()
+    } catch (e) {
+      on_error(e)
+    }
+  }
+
+  return {
+    /** Add a listener at a focus, returns the unsubscribe function */
+    listen(focus: Focus, k: () => void, name?: string): () => void {
+      const path = path_to(focus)
+      path.forEach(n => n.size++)
+      const description = (name || '<anonymous>') + ' (on ' + describe_focus(focus) + ')'
+      const remove = path[path.length - 1].listeners.push(() => {
+        const outer = running
+        running = description
+        try {
+          k()
+        } finally {
+          running = outer
+        }
+      })
+      let removed = false
+      return () => {
+        if (!removed) {
+          removed = true
+          remove()
+          path.forEach(n => n.size--)
+          path.forEach(n => n.size == 0 && n.remove())
+        }
+      }
+    },
+    /** Run the listeners at the root and at the foci whose values have changed */
+    notify(): void {
+      notified = get_state()
+      visit(root, notified, true)
+    },
+    /** Description of the listener that is running, if any */
+    running(): string | undefined {
+      return running
+    }
   }
+}
 
-  /** Compose two lenses sequentially */
-  export function seq<S, T, U>(lens1: Lens<S, T>, lens2: Lens<T, U>): Lens<S, U> {
-    return lens(
-      (s: S) => lens2.get(lens1.get(s)),
-      (s: S, u: U) => lens1.set(s, lens2.set(lens1.get(s), u))
-    )
-  }
+/** The value at a focus in some state of the root store */
+function focus_value(focus: Focus, s: any): any {
+  return focus.parent ? focus.get(focus_value(focus.parent, s)) : s
+}
 
-  /** Make a lens which omits some keys */
-  export function omit<S, K extends keyof S>(...ks: K[]): Lens<S, Omit<S, K>> {
-    const curry = (s: S) => {
-      const all_keys = Object.keys(s) as (keyof S)[]
-      const picked = all_keys.filter(x => -1 == ks.indexOf(x as K))
-      return (Lens.pick as any)(...picked)
-    }
-    return Lens.lens((s) => curry(s).get(s), (s, t) => curry(s).set(s, t))
+/** Describe a focus by the ids from the root, such as `.todos#3.text` */
+function describe_focus(focus: Focus): string {
+  let ids = ''
+  for (let f: Focus | null = focus; f; f = f.parent) {
+    ids = f.id + ids
   }
+  return ids || 'the root store'
+}
 
+/** A round of notification */
+interface Round {
+  /** The state at the start of the round */
+  readonly state: any
+  /** The listeners which set the state during the round */
+  readonly setters: string[]
+}
 
-  /** Partial lens to a particular index in an array
+/** Error for listeners which keep setting the state */
+function feedback_loop_error(rounds: number, trail: Round[]): Error {
+  const last = trail.slice(-3)
+  const setters = [] as string[]
+  last.forEach(r => r.setters.forEach(k => setters.indexOf(k) == -1 && setters.push(k)))
+  return new Error(
+    'Feedback loop: the listeners still set the state after ' + rounds + ' rounds of notification.\n' +
+    'Listeners setting the state: ' + (setters.join(', ') || 'none') + '\n' +
+    'Last states:\n' +
+    last.map(r => '  ' + show(r.state)).join('\n'))
+}
 
-      const store = Store.init([0, 1, 2, 3])
-      const first = store.via(Lens.index(0))
-      first.get() // => 0
-      first.set(99)
-      store.get() // => [99, 1, 2, 3]
+/** Show a value as (truncated) JSON */
+function show(x: any): string {
+  let str: string
+  try {
+    str = JSON.stringify(x)
+  } catch (_) {
+    str = String(x)
+  }
+  return str !== undefined && str.length > 200 ? str.slice(0, 200) + '...' : String(str)
+}
 
-  Note: an exception is thrown if you look outside the array. */
-  export function index<A>(i: number): Lens<A[], A> {
-    const within = (xs: A[]) => {
-      if (i < 0 || i >= xs.length) {
-        throw 'Out of bounds'
-      }
-    }
-    return lens(
-      xs => (within(xs), xs[i]),
-      (xs, x) => {
-        within(xs)
-        const ys = xs.slice()
-        ys[i] = x
-        return ys
-      })
+/** The patch operation for setting a value at a path */
+function patch_operation(path: Path, old: any, value: any): PatchOperation {
+  const pointer = Patch.pointer(path)
+  const in_record = typeof path[path.length - 1] == 'string'
+  if (in_record && value === undefined) {
+    return {op: 'remove', path: pointer}
+  } else if (in_record && old === undefined) {
+    return {op: 'add', path: pointer, value}
+  } else {
+    return {op: 'replace', path: pointer, value}
   }
 }
 
-/** History zipper functions
+/** The default audit of saved states: the JSON is shorter than a million characters */
+function default_audit(_: any, str: string): boolean {
+  return str.length < 1000000
+}
 
-    const {undo, redo, advance, advance_to} = Undo
-    const store = Store.init(Undo.init({a: 1, b: 2}))
-    const modify = op => store.modify(op)
-    const now = store.at('now')
-    now.get() // => {a: 1, b: 2}
-    modify(advance_to({a: 3, b: 4}))
-    now.get() // => {a: 3, b: 4}
-    modify(undo)
-    now.get() // => {a: 1, b: 2}
-    modify(redo)
-    now.get() // => {a: 3, b: 4}
-    modify(advance)
-    now.update({a: 5})
-    now.get() // => {a: 5, b: 4}
-    modify(undo)
-    now.get() // => {a: 3, b: 4}
-    modify(undo)
-    now.get() // => {a: 1, b: 2}
-    modify(undo)
-    now.get() // => {a: 1, b: 2}
+/** The codec which leaves values as they are */
+const identity_codec = {encode: (s: any) => s, decode: (data: any) => data}
 
-*/
-export module Undo {
-  /** Undo iff there is a past */
-  export function undo<S>(h: Undo<S>): Undo<S> {
-    if (h.prev != null) {
-      return {
-        now: h.prev.top,
-        prev: h.prev.pop,
-        next: {top: h.now, pop: h.next}
+/** An optimistic change of an async transaction, see `async_transaction` */
+interface OptimisticStep {
+  /** The state before the change */
+  before: any
+  /** The state after the change */
+  after: any
+  /** The patch which undoes the change */
+  undo: PatchOperation[]
+  /** Has the change been notified? Then changes by others notified later are made after it */
+  seen: boolean
+}
+
+/** A patch from one JSON value to another like `Patch.diff`, but which
+matches the elements of arrays by identity, so that a removed or inserted
+element does not shift the changes to the other elements */
+function aligned_diff(a: any, b: any): PatchOperation[] {
+  const ops = [] as PatchOperation[]
+  aligned_diff_at([], a, b, ops)
+  return ops
+}
+
+function aligned_diff_at(path: Path, a: any, b: any, ops: PatchOperation[]): void {
+  if (a === b) {
+    return
+  }
+  const objects = typeof a == 'object' && typeof b == 'object' && a !== null && b !== null
+  if (!objects || Array.isArray(a) != Array.isArray(b)) {
+    ops.push({op: 'replace', path: Patch.pointer(path), value: b})
+  } else if (Array.isArray(a)) {
+    // k is the index in the array as patched so far
+    let i = 0
+    let j = 0
+    let k = 0
+    common_elements(a, b).concat([[a.length, b.length]]).forEach(([i_kept, j_kept]) => {
+      // the elements between kept elements are diffed pairwise, the rest added or removed
+      for (; i < i_kept && j < j_kept; i++, j++, k++) {
+        aligned_diff_at(path.concat([k]), a[i], b[j], ops)
+      }
+      for (; j < j_kept; j++, k++) {
+        ops.push({op: 'add', path: Patch.pointer(path.concat([k])), value: b[j]})
       }
+      for (; i < i_kept; i++) {
+        ops.push({op: 'remove', path: Patch.pointer(path.concat([k]))})
+      }
+      i++
+      j++
+      k++
+    })
+  } else {
+    Object.keys(a).forEach(k => {
+      if (!Object.prototype.hasOwnProperty.call(b, k)) {
+        ops.push({op: 'remove', path: Patch.pointer(path.concat([k]))})
+      } else {
+        aligned_diff_at(path.concat([k]), a[k], b[k], ops)
+      }
+    })
+    Object.keys(b).forEach(k => {
+      if (!Object.prototype.hasOwnProperty.call(a, k)) {
+        ops.push({op: 'add', path: Patch.pointer(path.concat([k])), value: b[k]})
+      }
+    })
+  }
+}
+
+/** The indices of a longest common subsequence of two arrays, comparing by identity */
+function common_elements(a: any[], b: any[]): [number, number][] {
+  // the common prefix and suffix are kept without filling the table for them
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let end = 0
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) {
+    end++
+  }
+  const n = a.length - start - end
+  const m = b.length - start - end
+  /** The length of the longest common subsequence after i and j in the middle parts */
+  const lengths = [] as number[][]
+  for (let i = n; i >= 0; i--) {
+    lengths[i] = []
+    for (let j = m; j >= 0; j--) {
+      lengths[i][j] =
+        i == n || j == m ? 0 :
+        a[start + i] === b[start + j] ? lengths[i + 1][j + 1] + 1 :
+        Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+  const pairs = [] as [number, number][]
+  for (let i = 0; i < start; i++) {
+    pairs.push([i, i])
+  }
+  for (let i = 0, j = 0; i < n && j < m;) {
+    if (a[start + i] === b[start + j]) {
+      pairs.push([start + i, start + j])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
     } else {
-      return h
+      j++
     }
   }
+  for (let e = end; e > 0; e--) {
+    pairs.push([a.length - e, b.length - e])
+  }
+  return pairs
+}
 
-  /** Redo iff there is a future */
-  export function redo<S>(h: Undo<S>): Undo<S> {
-    if (h.next != null) {
-      return {
-        now: h.next.top,
-        prev: {top: h.now, pop: h.prev},
-        next: h.next.pop
-      }
+/** Is a JSON Pointer at or below another? */
+function within(pointer: string, ancestor: string): boolean {
+  return pointer == ancestor || pointer.slice(0, ancestor.length + 1) == ancestor + '/'
+}
+
+/** Rebase a patch which undoes a change on a patch made after the change
+(starting from the state s): the indices of arrays are shifted past the
+elements the patch adds and removes, and what it sets is not undone */
+function rebase_undo(undo: PatchOperation[], s: any, ops: PatchOperation[]): PatchOperation[] {
+  ops.forEach(op => {
+    const slash = op.path.lastIndexOf('/')
+    const parent = op.path.slice(0, slash)
+    const i = Number(op.path.slice(slash + 1))
+    if (op.op != 'replace' && Array.isArray(value_at_pointer(s, parent))) {
+      undo = undo.filter(u => {
+        if (!within(u.path, op.path)) {
+          return true
+        }
+        // an element which is removed is not changed back, but one can be added in its place
+        return op.op == 'add' || u.path == op.path && u.op == 'add'
+      }).map(u => {
+        const rest = u.path.slice(parent.length + 1)
+        if (u.path.slice(0, parent.length + 1) != parent + '/') {
+          return u
+        }
+        const j = Number(rest.split('/')[0])
+        const shifted = op.op == 'add' ? (j >= i ? j + 1 : j) : (j > i ? j - 1 : j)
+        return {...u, path: parent + '/' + shifted + rest.slice(String(j).length)}
+      })
     } else {
-      return h
+      undo = undo.filter(u => !within(u.path, op.path))
     }
+    s = Patch.apply(s, [op])
+  })
+  return undo
+}
+
+/** The value at a JSON Pointer */
+function value_at_pointer(s: any, pointer: string): any {
+  return pointer.split('/').slice(1).reduce(
+    (x, k) => x === null || typeof x != 'object' ? undefined : x[k.replace(/~1/g, '/').replace(/~0/g, '~')],
+    s)
+}
+
+/** Is this a plain object or array? */
+function is_plain(x: any): boolean {
+  if (x === null || typeof x != 'object') {
+    return false
   }
+  const proto = Object.getPrototypeOf(x)
+  return proto === Object.prototype || proto === Array.prototype || proto === null
+}
 
-  /** Advances the history by copying the present state */
-  export function advance<S>(h: Undo<S>): Undo<S> {
-    return {
-      now: h.now,
-      prev: {top: h.now, pop: h.prev},
-      next: null
+/** Is this a key in a path, where `'*'` is any key? */
+function key_matches(path_key: string | number, k: string | number): boolean {
+  return path_key === '*' || String(path_key) === String(k)
+}
+
+/** The parts of a value at some paths */
+function pick_paths(x: any, paths: Path[]): any {
+  if (paths.some(path => path.length == 0)) {
+    return x
+  }
+  if (!is_plain(x)) {
+    return undefined
+  }
+  const picked = Array.isArray(x) ? [] as any : {} as any
+  Object.keys(x).forEach(k => {
+    const tails = paths.filter(path => key_matches(path[0], k)).map(path => path.slice(1))
+    if (tails.length > 0) {
+      picked[k] = pick_paths(x[k], tails)
     }
+  })
+  return picked
+}
+
+/** A value without the parts at some paths */
+function omit_paths(x: any, paths: Path[]): any {
+  if (!is_plain(x) || paths.length == 0) {
+    return x
   }
+  const omitted = Array.isArray(x) ? [] as any : {} as any
+  Object.keys(x).forEach(k => {
+    const matching = paths.filter(path => key_matches(path[0], k))
+    if (!matching.some(path => path.length == 1)) {
+      omitted[k] = omit_paths(x[k], matching.map(path => path.slice(1)))
+    }
+  })
+  return omitted
+}
 
-  /** Initialise the history */
-  export function init<S>(now: S): Undo<S> {
-    return {
-      now,
-      prev: null,
-      next: null
+/** Fill in the values at some paths which are missing, by a function of
+their paths (at is the path of x). A `'*'` in a path is any key or index */
+function fill_paths(x: any, paths: Path[], fill: (path: Path) => any, at: Path = []): any {
+  if (!is_plain(x) || paths.length == 0) {
+    return x
+  }
+  const filled = Array.isArray(x) ? x.slice() : {...x}
+  paths.forEach(path => {
+    const k = path[0]
+    if (path.length == 1 && k !== '*' && !Object.prototype.hasOwnProperty.call(x, k)) {
+      const value = fill(at.concat([k]))
+      if (value !== undefined) {
+        filled[k] = value
+      }
     }
+  })
+  Object.keys(x).forEach(k => {
+    const below = paths.filter(path => path.length > 1 && key_matches(path[0], k)).map(path => path.slice(1))
+    filled[k] = fill_paths(x[k], below, fill, at.concat([Array.isArray(x) ? Number(k) : k]))
+  })
+  return filled
+}
+
+/** Replace the values that some serializer is for by `{$type, value}` */
+function serialize(x: any, serializers: Serializer<any>[]): any {
+  if (serializers.length == 0) {
+    return x
   }
+  const serializer = serializers.filter(serializer => serializer.test(x))[0]
+  if (serializer) {
+    return {$type: serializer.name, value: serialize(serializer.serialize(x), serializers)}
+  } else if (Array.isArray(x)) {
+    return x.map(y => serialize(y, serializers))
+  } else if (is_plain(x)) {
+    const data = {} as Record<string, any>
+    Object.keys(x).forEach(k => data[k] = serialize(x[k], serializers))
+    return data
+  } else {
+    return x
+  }
+}
 
-  /** Advances the history to some new state */
-  export function advance_to<S>(s: S): (h: Undo<S>) => Undo<S> {
-    return h => Lens.at<typeof h, 'now'>('now').set(advance(h), s)
+/** Revive the values made by `serialize` */
+function revive(data: any, serializers: Serializer<any>[]): any {
+  if (serializers.length == 0 || typeof data != 'object' || data === null) {
+    return data
+  } else if (Array.isArray(data)) {
+    return data.map(y => revive(y, serializers))
+  }
+  const serializer = serializers.filter(serializer => serializer.name === data.$type)[0]
+  if (serializer) {
+    return serializer.revive(revive(data.value, serializers))
   }
+  const x = {} as Record<string, any>
+  Object.keys(data).forEach(k => x[k] = revive(data[k], serializers))
+  return x
+}
 
-  /** Is there a state to undo to? */
-  export function can_undo<S>(h: Undo<S>): boolean {
-    return h.prev != null
+/** Merge loaded data into a value: objects key by key, other values are replaced */
+function merge_into(current: any, loaded: any): any {
+  if (!is_plain(current) || !is_plain(loaded) || Array.isArray(current) || Array.isArray(loaded)) {
+    return loaded
   }
+  const merged = {...current}
+  Object.keys(loaded).forEach(k => merged[k] = merge_into(current[k], loaded[k]))
+  return merged
+}
 
-  /** Is there a state to redo to? */
-  export function can_redo<S>(h: Undo<S>): boolean {
-    return h.next != null
+/** Is the saved data a versioned envelope `{version, data}`? */
+function is_envelope(saved: any): boolean {
+  return typeof saved == 'object' && saved !== null && !Array.isArray(saved) &&
+    typeof saved.version == 'number' && 'data' in saved && Object.keys(saved).length == 2
+}
+
+/** The migrations from one version to another, or undefined if some migration is missing */
+function migration_chain(from: any, to: number, migrations: Migrations): ((data: any) => any)[] | undefined {
+  if (typeof from != 'number' || from > to) {
+    return undefined
   }
+  const chain = [] as ((data: any) => any)[]
+  for (let v = from; v < to; v++) {
+    if (!migrations[v]) {
+      return undefined
+    }
+    chain.push(migrations[v])
+  }
+  return chain
 }
 
-/** History zipper */
-export interface Undo<S> {
-  readonly now: S
-  readonly prev: null | Stack<S>,
-  readonly next: null | Stack<S>,
+/** Rethrow an exception asynchronously, so that it is reported but does not stop the caller */
+function rethrow_async(e: any): void {
+  setTimeout(() => {
+    throw e
+  })
 }
 
-/** A non-empty stack */
-export interface Stack<S> {
-  readonly top: S
-  readonly pop: null | Stack<S>
+/** Index of the first element satisfying a predicate, or -1 */
+function find_index<A>(xs: A[], p: (a: A) => boolean): number {
+  for (let i = 0; i < xs.length; i++) {
+    if (p(xs[i])) {
+      return i
+    }
+  }
+  return -1
+}
+
+/** List with iteration and O(1) push and remove */
+interface ListWithRemove<A> {
+  /** Push a new element, returns the delete function */
+  push(a: A): () => void
+  /** Iterate over the elements */
+  iter(f: (a: A) => void): void
 }
 
 /** List with iteration and O(1) push and remove */
-function ListWithRemove<A>() {
+function ListWithRemove<A>(): ListWithRemove<A> {
   const dict = {} as Record<string, A>
   let order = [] as number[]
   let next_unique = 0
@@ -739,9 +3903,20 @@ function ListWithRemove<A>() {
 
 /** Utility functions to make Elm/Redux-style requests
 
-A queue of requests are maintained in an array.
+A queue of requests are maintained in an array. The view or the
+listeners make requests by pushing onto the queue, and the requests are
+processed outside of the pure parts of the app:
 
-TODO: Document and test. */
+    type Request = {type: 'greet', name: string}
+    const store = Store.init({requests: [] as Request[], greeting: ''})
+    const requests = store.at('requests')
+    Requests.process_requests(requests, request => {
+      store.at('greeting').set('Hello ' + request.name)
+    })
+    Requests.request(requests, {type: 'greet', name: 'World'})
+    store.get() // => {requests: [], greeting: 'Hello World'}
+
+Requests with asynchronous effects, such as HTTP requests, are run with `run_effects`. */
 export module Requests {
   /** Make a function for making requests */
   export function request_maker<R>(store: Store<R[]>): (request: R) => void {
@@ -766,6 +3941,338 @@ export module Requests {
       }
     })
   }
+
+  /** An asynchronous effect of requests, and how its results come back into the store */
+  export interface Effect<R, A> {
+    /** Run the effect of a request. The request may be cancelled while running,
+    then its result is ignored. */
+    run(request: R, cancelled: () => boolean): Promise<A>
+    /** Put the result of a request into the store */
+    ok(result: A, request: R): void
+    /** Put the error of a request into the store (default: rethrow it asynchronously) */
+    error?(error: any, request: R): void
+  }
+
+  /** Options to `run_effects` */
+  export interface EffectOptions<R> {
+    /** The id of a request (default: its JSON) */
+    id?: (request: R) => string
+    /** What to do with a request when one with the same id is in flight:
+    drop the new request (the default), or cancel the old one and run the new */
+    duplicate?: 'drop' | 'restart'
+    /** Where to keep the ids of the requests in flight, for example in the state of the app */
+    pending?: Store<{[id: string]: boolean}>
+    /** Handler for exceptions thrown by `ok` and `error` (default: rethrow them asynchronously) */
+    on_error?: (e: any) => void
+  }
+
+  /** Runs the effects of requests, see `run_effects` */
+  export interface Runner {
+    /** The ids of the requests in flight */
+    pending: Store<{[id: string]: boolean}>
+    /** Cancel the request in flight with some id */
+    cancel(id: string): void
+    /** Cancel all requests in flight and stop processing requests */
+    off(): void
+  }
+
+  /** Process requests by running their asynchronous effects
+
+      type Request = {type: 'load', url: string}
+      const store = Store.init({requests: [] as Request[], pages: {} as Record<string, string>})
+      const requests = store.at('requests')
+      const runner = Requests.run_effects(requests, {
+        run: (request: Request) => Promise.resolve('contents of ' + request.url),
+        ok: (page, request) => store.at('pages').modify(pages => ({...pages, [request.url]: page}))
+      }, {id: request => request.url})
+      Requests.request(requests, {type: 'load', url: '/a'})
+      Requests.request(requests, {type: 'load', url: '/a'})
+      runner.pending.get() // => {'/a': true}
+
+  When the promise has resolved, the page is in the store and the request
+  is no longer pending. The duplicated request was dropped.
+
+  If `ok` or `error` throws, its changes are rolled back, the request is no
+  longer pending, and the exception goes to the `on_error` option. */
+  export function run_effects<R, A>(store: Store<R[]>, effect: Effect<R, A>, options: EffectOptions<R> = {}): Runner {
+    const id_of = options.id || ((request: R) => JSON.stringify(request))
+    const pending = options.pending || Store.init({} as {[id: string]: boolean})
+    const on_error = options.on_error || rethrow_async
+    const flights = {} as {[id: string]: {cancelled: boolean}}
+    const settle = (id: string) => {
+      delete flights[id]
+      if (pending.get()[id]) {
+        pending.modify(p => {
+          const q = {...p}
+          delete q[id]
+          return q
+        })
+      }
+    }
+    const cancel = (id: string) => {
+      const flight = flights[id]
+      if (flight) {
+        flight.cancelled = true
+        settle(id)
+      }
+    }
+    const start = (request: R) => {
+      const id = id_of(request)
+      if (flights[id]) {
+        if (options.duplicate == 'restart') {
+          cancel(id)
+        } else {
+          return
+        }
+      }
+      const flight = flights[id] = {cancelled: false}
+      pending.modify(p => ({...p, [id]: true}))
+      const done = (k: () => void) => {
+        if (!flight.cancelled) {
+          try {
+            store.transaction(() => {
+              settle(id)
+              k()
+            })
+          } catch (e) {
+            // the rollback may have restored the pending flag
+            settle(id)
+            on_error(e)
+          }
+        }
+      }
+      let running: Promise<A>
+      try {
+        running = effect.run(request, () => flight.cancelled)
+      } catch (e) {
+        running = Promise.reject(e)
+      }
+      running.then(
+        result => done(() => effect.ok(result, request)),
+        error => done(() => (effect.error || rethrow_async)(error, request)))
+    }
+    const off = process_requests(store, start)
+    return {
+      pending,
+      cancel,
+      off() {
+        off()
+        Object.keys(flights).forEach(cancel)
+      }
+    }
+  }
+}
+
+/** A harness to test apps with request queues deterministically
+
+The harness processes the requests, recording them in order instead of
+running their effects. They are resolved or rejected by hand, in any order,
+and the results come back through the response handlers of the app:
+
+    type Request = {type: 'load', url: string}
+    const store = Store.init({requests: [] as Request[], page: ''})
+    const harness = Testing.harness(store, store.at('requests'), {
+      ok: (page: string) => store.at('page').set(page)
+    })
+    Requests.request(store.at('requests'), {type: 'load', url: '/a'})
+    harness.pending().map(issued => issued.request) // => [{type: 'load', url: '/a'}]
+    harness.pending()[0].resolve('A')
+    store.get() // => {requests: [], page: 'A'}
+    harness.snapshots()
+    // => [{state: {requests: [], page: ''}, requests: [{type: 'load', url: '/a'}]}, {state: {requests: [], page: 'A'}, requests: []}]
+
+The harness also has fake timers to give to the app, such as to `async_storage_connect`. */
+export module Testing {
+  /** A request recorded by a harness */
+  export interface Issued<R> {
+    readonly request: R
+    /** The time on the fake timers when the request was made */
+    readonly time: number
+    status(): 'pending' | 'resolved' | 'rejected'
+    /** Resolve the request, calling the `ok` handler in a transaction */
+    resolve(result?: any): void
+    /** Reject the request, calling the `error` handler in a transaction */
+    reject(error: any): void
+  }
+
+  /** The state after a transaction and the reactions to it, and the requests it made */
+  export interface Snapshot<S, R> {
+    readonly state: S
+    readonly requests: R[]
+  }
+
+  /** A harness, see `Testing.harness` */
+  export interface Harness<S, R> {
+    /** All recorded requests, in order */
+    requests(): Issued<R>[]
+    /** The recorded requests which are neither resolved nor rejected, in order */
+    pending(): Issued<R>[]
+    /** A snapshot for each transaction since the harness was made */
+    snapshots(): Snapshot<S, R>[]
+    /** Fake timers, advance them to run the timeouts which are due */
+    timers: Timers.Fake
+    /** Stop processing requests and making snapshots */
+    off(): void
+  }
+
+  /** Make a harness for a root store and its request queue, with the response handlers of the app */
+  export function harness<S, R>(
+      store: Store<S>,
+      requests: Store<R[]>,
+      handlers: {ok?(result: any, request: R): void, error?(error: any, request: R): void} = {}
+    ): Harness<S, R>
+  {
+    const timers = Timers.fake()
+    const issued = [] as Issued<R>[]
+    const snapshots = [] as Snapshot<S, R>[]
+    let processing = false
+    const off_change = store.on_change(change => {
+      if (processing && snapshots.length > 0) {
+        // the queue was emptied by the harness: part of the previous transaction
+        snapshots[snapshots.length - 1] = {...snapshots[snapshots.length - 1], state: change.after}
+      } else {
+        snapshots.push({state: change.after, requests: []})
+      }
+      processing = false
+    })
+    const off_requests = Requests.process_requests(requests, request => {
+      processing = true
+      let status: 'pending' | 'resolved' | 'rejected' = 'pending'
+      const settle = (to: 'resolved' | 'rejected', k: () => void) => {
+        if (status != 'pending') {
+          throw 'Request already ' + status
+        }
+        status = to
+        store.transaction(k)
+      }
+      issued.push({
+        request,
+        time: timers.now(),
+        status: () => status,
+        resolve: result => settle('resolved', () => handlers.ok && handlers.ok(result, request)),
+        reject: error => settle('rejected', () => handlers.error && handlers.error(error, request))
+      })
+      const last = snapshots[snapshots.length - 1]
+      last && last.requests.push(request)
+    })
+    return {
+      requests: () => issued,
+      pending: () => issued.filter(i => i.status() == 'pending'),
+      snapshots: () => snapshots,
+      timers,
+      off() {
+        off_change()
+        off_requests()
+      }
+    }
+  }
+}
+
+/** A subscription: a source of messages, see `Subscriptions` */
+export interface Sub<M> {
+  /** Tells subscriptions apart: a subscription with the same key as a running one keeps running */
+  readonly key: string
+  /** Start the subscription, returns the function that stops it */
+  start(send: (message: M) => void): () => void
+}
+
+/** Elm-style subscriptions: the subscriptions are derived from the state,
+and are started and stopped as the state changes
+
+    const timers = Timers.fake()
+    const store = Store.init({running: true, ticks: 0})
+    Subscriptions.run(
+      store,
+      s => s.running ? [Subscriptions.every(1000, timers)] : [],
+      () => store.at('ticks').modify(n => n + 1))
+    timers.advance(2500)
+    store.get() // => {running: true, ticks: 2}
+    store.at('running').set(false)
+    timers.advance(2500)
+    store.get() // => {running: false, ticks: 2}
+
+*/
+export module Subscriptions {
+  /** Run the subscriptions of the state of a store. Their messages are sent to
+  a setter, such as `store.at('now').set`. Returns the function which stops all
+  subscriptions. */
+  export function run<S, M>(store: Store<S>, subscriptions: (s: S) => Sub<M>[], send: (message: M) => void): () => void {
+    let running = {} as {[key: string]: () => void}
+    const update = (s: S) => {
+      const next = {} as {[key: string]: () => void}
+      subscriptions(s).forEach(sub => {
+        if (next[sub.key]) {
+          return
+        }
+        next[sub.key] = running[sub.key] || start(sub)
+      })
+      Object.keys(running).forEach(key => next[key] || running[key]())
+      running = next
+    }
+    const start = (sub: Sub<M>) => {
+      let active = true
+      const stop = sub.start(message => active && send(message))
+      return () => {
+        active = false
+        stop()
+      }
+    }
+    const off = store.on(update)
+    store.transaction(() => update(store.get()))
+    return () => {
+      off()
+      Object.keys(running).forEach(key => running[key]())
+      running = {}
+    }
+  }
+
+  /** Make a subscription */
+  export function sub<M>(key: string, start: (send: (message: M) => void) => () => void): Sub<M> {
+    return {key, start}
+  }
+
+  /** Change the messages of a subscription. The key is the same, so give
+  another key if the same subscription is mapped in different ways. */
+  export function map<A, B>(s: Sub<A>, f: (a: A) => B, key: string = s.key): Sub<B> {
+    return sub<B>(key, send => s.start(a => send(f(a))))
+  }
+
+  /** The time, every some milliseconds */
+  export function every(ms: number, timers: Timers = Timers.real): Sub<number> {
+    return sub<number>('every ' + ms, send => {
+      let handle: any
+      const tick = () => {
+        handle = timers.set_timeout(tick, ms)
+        send(timers.now())
+      }
+      handle = timers.set_timeout(tick, ms)
+      return () => timers.clear_timeout(handle)
+    })
+  }
+
+  /** The time, once after some milliseconds */
+  export function after(ms: number, timers: Timers = Timers.real): Sub<number> {
+    return sub<number>('after ' + ms, send => {
+      const handle = timers.set_timeout(() => send(timers.now()), ms)
+      return () => timers.clear_timeout(handle)
+    })
+  }
+
+  /** Events of some type, such as `'resize'` or `'keydown'`, from some target (default: `window`) */
+  export function event<E = Event>(
+      type: string,
+      target: {
+        addEventListener(type: string, k: (e: E) => void): void,
+        removeEventListener(type: string, k: (e: E) => void): void
+      } = window as any,
+      key: string = 'event ' + type
+    ): Sub<E>
+  {
+    return sub<E>(key, send => {
+      target.addEventListener(type, send)
+      return () => target.removeEventListener(type, send)
+    })
+  }
 }
 
 // From: http://ideasintosoftware.com/typescript-advanced-tricks/
@@ -1,4 +1,4 @@
-import { Store, Lens as L } from './../src/reactive-lens'
+import { Store, Eq, Scheduler, Lens as L, Prism as P, Traversal as T, Patch, Recorder, DevtoolsMessage, Undo, UndoTree, AsyncStorage, Timers, SyncChannel, SyncMessage, Serializer, Router, Requests, Testing, Subscriptions, Sub, Path } from './../src/reactive-lens'
 import * as test from "tape"
 
 function reverse<A>(xs: A[]): A[] {
@@ -13,7 +13,7 @@ function check_laws<S>(s: Store<S>, a: S, b: S, assert: test.Test): void {
   s.set(now)
 }
 
-function init<S>(s0: S, assert: test.Test): {store: Store<S>, after(s: string, x: any, count?: number): void, test_laws<T>(s: Store<T>, a: T, b: T): void} {
+function init<S>(s0: S, assert: test.Test): {store: Store<S>, after(s: string, x: any, count?: number): void, test_laws<T>(s: Store<T>, a: T, b: T, count?: number): void} {
   const store = Store.init(s0)
   let current = store.get()
   let transaction_count = 0
@@ -31,10 +31,11 @@ function init<S>(s0: S, assert: test.Test): {store: Store<S>, after(s: string, x
   return {
     store,
     after,
-    test_laws(s, a, b) {
+    test_laws(s, a, b, count = 3) {
       const orig = store.get()
       check_laws(s, a, b, assert)
-      after('checking laws', orig, 5)
+      // sets of the same value are skipped: in the second transaction and in s.set(b)
+      after('checking laws', orig, count)
     }
   }
 }
@@ -81,7 +82,7 @@ test('reactive-lens', assert => {
   const r_bsr = r_bs.via(L.iso(reverse, reverse))
   r_bsr.via(L.index(0)).set(42)
   after('iso reverse', {a: 10, b: [4, 42], c: {d: [4, 5], e: 20}})
-  test_laws(r_bsr, [9,8], [6,9,8])
+  test_laws(r_bsr, [9,8], [6,9,8], 5) // the iso makes new arrays
   test_laws(r_bsr.via(L.index(1)), 10, 20)
 
   let a: any
@@ -132,14 +133,14 @@ test('key', assert => {
   apa.set(undefined)
   after('removing apa', {bepa: 2})
   test_laws(apa, 9, 8)
-  test_laws(apa, undefined, 8)
-  test_laws(apa, 8, undefined)
+  test_laws(apa, undefined, 8, 2)
+  test_laws(apa, 8, undefined, 2)
   const b0 = bepa.via(L.def(0))
   b0.set(0)
   after('removing bepa via def', {})
   test_laws(b0, 9, 8)
-  test_laws(b0, 0, 8)
-  test_laws(b0, 8, 0)
+  test_laws(b0, 0, 8, 2)
+  test_laws(b0, 8, 0, 2)
   cepa.via(L.def(0)).set(3)
   after('inserting cepa via def', {cepa: 3})
   assert.is(cepa.get(), 3, 'get')
@@ -182,7 +183,7 @@ test('relabel', assert => {
   const ab = store.via(L.relabel({a: L.at<typeof s0, 'g'>('g'), b: L.at<typeof s0, 'k'>('k')}))
   ab.set({a: 4, b: 3})
   after('relabel', {k: 3, g: 4})
-  test_laws(ab, {a: 9, b: 8}, {a: 6, b: 5})
+  test_laws(ab, {a: 9, b: 8}, {a: 6, b: 5}, 5) // the lens makes new objects
   assert.end()
 })
 
@@ -192,11 +193,11 @@ test('pick', assert => {
   const kg = store.pick('k', 'g')
   kg.set({k: 4, g: 5})
   after('pick', {k: 4, g: 5, h: 3})
-  test_laws(kg, {k: 9, g: 8}, {k: 6, g: 5})
+  test_laws(kg, {k: 9, g: 8}, {k: 6, g: 5}, 5) // the lens makes new objects
   const gh = store.via(L.pick('g', 'h'))
   gh.set({g: 6, h: 7})
   after('pick', {k: 4, g: 6, h: 7})
-  test_laws(gh, {g: 8, h: 9}, {g: 5, h: 6})
+  test_laws(gh, {g: 8, h: 9}, {g: 5, h: 6}, 5)
   assert.end()
 })
 
@@ -232,3 +233,1293 @@ test('seq', assert => {
   assert.end()
 })
 
+
+type Remote = {tag: 'loading'} | {tag: 'loaded', data: {x: number}}
+type Loaded = {tag: 'loaded', data: {x: number}}
+
+test('narrow', assert => {
+  const {store, after, test_laws} = init({tag: 'loading'} as Remote, assert)
+  const loaded = P.tag<Remote, Loaded>('tag', 'loaded')
+  assert.is(store.narrow(loaded), undefined, 'not there')
+  store.set({tag: 'loaded', data: {x: 1}})
+  after('loaded', {tag: 'loaded', data: {x: 1}})
+  const x = store.narrow(loaded)!.at('data').at('x')
+  x.set(2)
+  after('narrowed set', {tag: 'loaded', data: {x: 2}})
+  test_laws(x, 3, 4)
+  store.set({tag: 'loading'})
+  after('loading', {tag: 'loading'})
+  x.set(5)
+  after('ignored set', {tag: 'loading'}, 0)
+  assert.end()
+})
+
+test('prism seq', assert => {
+  const {store, after} = init([{tag: 'loading'}, {tag: 'loaded', data: {x: 1}}] as Remote[], assert)
+  const x = (i: number) => P.seq(P.seq(P.index<Remote>(i), P.tag<Remote, Loaded>('tag', 'loaded')), L.seq(L.at<Loaded, 'data'>('data'), L.at<{x: number}, 'x'>('x')))
+  assert.is(x(0).preview(store.get()), undefined, 'wrong variant')
+  assert.is(x(1).preview(store.get()), 1, 'right variant')
+  assert.is(x(2).preview(store.get()), undefined, 'out of bounds')
+  store.narrow(x(1))!.modify(v => v + 1)
+  after('seq set', [{tag: 'loading'}, {tag: 'loaded', data: {x: 2}}])
+  store.modify(s => x(2).set(x(0).set(s, 3), 4))
+  after('ignored sets', [{tag: 'loading'}, {tag: 'loaded', data: {x: 2}}], 0)
+  assert.end()
+})
+
+test('prism key and defined', assert => {
+  const {store, after} = init({a: 1} as Record<string, number | undefined>, assert)
+  store.modify(s => P.key<typeof s, string>('b').set(s, 2))
+  after('ignored set', {a: 1}, 0)
+  store.modify(s => P.seq(P.key<typeof s, string>('a'), P.defined<number>()).set(s, 2))
+  after('defined set', {a: 2})
+  assert.end()
+})
+
+test('over', assert => {
+  const s0 = {lists: {a: [{x: 1}, {x: 2}], b: [{x: 3}]} as Record<string, {x: number}[]>}
+  const {store, after} = init(s0, assert)
+  const every_x = T.seq(T.seq(T.seq(L.at<typeof s0, 'lists'>('lists'), L.values<{x: number}[]>()), L.all<{x: number}>()), L.at<{x: number}, 'x'>('x'))
+  assert.deepEqual(every_x.get_all(store.get()), [1, 2, 3], 'get_all')
+  store.over(every_x, x => x * 10)
+  after('over', {lists: {a: [{x: 10}, {x: 20}], b: [{x: 30}]}})
+  store.over(T.seq(every_x, L.filtered((x: number) => x > 15)), x => x + 1)
+  after('over filtered', {lists: {a: [{x: 10}, {x: 21}], b: [{x: 31}]}})
+  store.at('lists').over(T.seq(L.values<{x: number}[]>(), P.index<{x: number}>(1)), () => ({x: 0}))
+  after('over prism', {lists: {a: [{x: 10}, {x: 0}], b: [{x: 31}]}})
+  assert.end()
+})
+
+test('each_by', assert => {
+  type Todo = {id: number, text: string}
+  const {store, after, test_laws} = init([{id: 0, text: 'a'}, {id: 1, text: 'b'}, {id: 2, text: 'c'}] as Todo[], assert)
+  const [s0, s1, s2] = Store.each_by(store, todo => todo.id)
+  store.modify(xs => xs.slice().reverse())
+  after('reverse', [{id: 2, text: 'c'}, {id: 1, text: 'b'}, {id: 0, text: 'a'}])
+  s0.at('text').set('A')
+  after('set after reverse', [{id: 2, text: 'c'}, {id: 1, text: 'b'}, {id: 0, text: 'A'}])
+  test_laws(s2, {id: 2, text: 'x'}, {id: 2, text: 'y'})
+  store.modify(xs => [{id: 3, text: 'd'}].concat(xs.filter(x => x.id != 1)))
+  after('insert and remove', [{id: 3, text: 'd'}, {id: 2, text: 'c'}, {id: 0, text: 'A'}])
+  assert.deepEqual(s1.get(), {id: 1, text: 'b'}, 'removed element keeps last value')
+  s1.at('text').set('B')
+  after('set on removed element', [{id: 3, text: 'd'}, {id: 2, text: 'c'}, {id: 0, text: 'A'}], 0)
+  s2.at('text').set('C')
+  after('set after insert', [{id: 3, text: 'd'}, {id: 2, text: 'C'}, {id: 0, text: 'A'}])
+  const r1 = store.via(L.by_key((x: Todo) => x.id, 1))
+  assert.throws(() => r1.get(), 'missing key')
+  const r3 = store.via(L.by_key((x: Todo) => x.id, 3))
+  r3.at('text').set('D')
+  after('by_key lens', [{id: 3, text: 'D'}, {id: 2, text: 'C'}, {id: 0, text: 'A'}])
+  assert.end()
+})
+
+test('substore listeners', assert => {
+  const {store, after} = init({a: {b: 1, c: 2}, d: 3}, assert)
+  const runs = {a: 0, b: 0, c: 0, d: 0, ab: 0}
+  const count = (k: keyof typeof runs) => () => runs[k]++
+  store.at('a').on(count('a'))
+  store.at('a').at('b').on(count('b'))
+  store.at('a').at('c').on(count('c'))
+  const off_d = store.at('d').on(count('d'))
+  const s0 = store.get()
+  store.via(L.seq(L.at<typeof s0, 'a'>('a'), L.at<typeof s0['a'], 'b'>('b'))).on(count('ab'))
+  store.at('d').set(4)
+  after('set d', {a: {b: 1, c: 2}, d: 4})
+  assert.deepEqual(runs, {a: 0, b: 0, c: 0, d: 1, ab: 0}, 'only d')
+  store.at('a').at('b').set(5)
+  after('set b', {a: {b: 5, c: 2}, d: 4})
+  assert.deepEqual(runs, {a: 1, b: 1, c: 0, d: 1, ab: 1}, 'a and b')
+  store.transaction(() => {
+    store.at('a').at('c').set(6)
+    store.at('a').at('c').set(7)
+    store.at('d').set(8)
+  })
+  after('transaction', {a: {b: 5, c: 7}, d: 8})
+  assert.deepEqual(runs, {a: 2, b: 1, c: 1, d: 2, ab: 1}, 'a, c and d once')
+  off_d()
+  store.at('d').set(9)
+  after('set d', {a: {b: 5, c: 7}, d: 9})
+  assert.deepEqual(runs, {a: 2, b: 1, c: 1, d: 2, ab: 1}, 'd unsubscribed')
+  store.at('d').on(count('d'))
+  store.at('d').set(10)
+  after('set d', {a: {b: 5, c: 7}, d: 10})
+  assert.deepEqual(runs, {a: 2, b: 1, c: 1, d: 3, ab: 1}, 'd subscribed again')
+  assert.end()
+})
+
+test('substore listeners order and feedback', assert => {
+  const {store, after} = init({a: 1, b: 0}, assert)
+  const order = [] as string[]
+  store.at('b').on(b => order.push('b' + b))
+  store.at('a').on(a => {
+    order.push('a' + a)
+    store.at('b').set(a * 2)
+  })
+  store.on(s => order.push('root' + s.a))
+  store.at('a').set(2)
+  after('set a and then b in a listener', {a: 2, b: 4}, 2)
+  assert.deepEqual(order, ['root2', 'a2', 'root2', 'b4'], 'root first, then substores in order')
+  assert.end()
+})
+
+test('eq', assert => {
+  const {store, after} = init({a: {b: [1, 2]}, c: 3}, assert)
+  const a = store.at('a')
+  const b = a.at('b')
+  const before = store.get()
+  a.modify(x => x)
+  b.set(b.get())
+  store.at('c').set(3)
+  after('identity sets', {a: {b: [1, 2]}, c: 3}, 0)
+  assert.is(store.get(), before, 'parent not rebuilt')
+  b.set([1, 2])
+  after('new array', {a: {b: [1, 2]}, c: 3})
+  const shallow_b = a.via(L.at<{b: number[]}, 'b'>('b'), Eq.shallow)
+  shallow_b.set([1, 2])
+  after('shallow set of equal array', {a: {b: [1, 2]}, c: 3}, 0)
+  shallow_b.set([2, 1])
+  after('shallow set of new array', {a: {b: [2, 1]}, c: 3})
+  let diffs = 0
+  a.ondiff(() => diffs++, Eq.deep)
+  b.set([2, 1])
+  after('deep equal array', {a: {b: [2, 1]}, c: 3})
+  assert.is(diffs, 0, 'no deep diff')
+  b.set([3])
+  after('new array', {a: {b: [3]}, c: 3})
+  assert.is(diffs, 1, 'deep diff')
+  assert.end()
+})
+
+test('eq on init', assert => {
+  const store = Store.init({a: {b: [1, 2]}}, {eq: Eq.deep})
+  let root = 0
+  let sub = 0
+  store.on(() => root++)
+  store.at('a').on(() => sub++)
+  store.set({a: {b: [1, 2]}})
+  store.at('a').set({b: [1, 2]})
+  assert.deepEqual([root, sub], [0, 0], 'deep equal sets skipped')
+  store.at('a').at('b').set([2])
+  assert.deepEqual([root, sub], [1, 1], 'changed')
+  assert.ok(Eq.shallow({x: 1, y: 'z'}, {y: 'z', x: 1}), 'shallow')
+  assert.notOk(Eq.shallow<object>({x: 1}, {x: 1, y: 2}), 'shallow more keys')
+  assert.notOk(Eq.shallow<object>([1], {0: 1}), 'shallow array and object')
+  assert.notOk(Eq.deep({x: [new Date(0)]}, {x: [new Date(0)]}), 'deep only plain objects')
+  assert.end()
+})
+
+test('derive', assert => {
+  const {store, after} = init({todos: [{done: false}, {done: true}], input: ''}, assert)
+  let computed = 0
+  const left = store.at('todos').derive(todos => (computed++, todos.filter(t => !t.done).length))
+  const message = left.derive(n => n + ' left')
+  assert.is(message.get(), '1 left', 'get')
+  assert.is(left.get(), 1, 'get again')
+  assert.is(computed, 1, 'memoized')
+  const seen = [] as string[]
+  const off = message.on(x => seen.push(x))
+  store.at('input').set('x')
+  after('unrelated set', {todos: [{done: false}, {done: true}], input: 'x'})
+  assert.is(computed, 1, 'not recomputed')
+  store.at('todos').modify(todos => todos.concat({done: true}))
+  after('same count', {todos: [{done: false}, {done: true}, {done: true}], input: 'x'})
+  assert.deepEqual(seen, [], 'no change')
+  store.at('todos').modify(todos => todos.concat({done: false}))
+  after('new count', {todos: [{done: false}, {done: true}, {done: true}, {done: false}], input: 'x'})
+  assert.deepEqual(seen, ['2 left'], 'changed')
+  off()
+  store.at('todos').set([])
+  after('cleared', {todos: [], input: 'x'})
+  assert.deepEqual(seen, ['2 left'], 'unsubscribed')
+  assert.is(message.get(), '0 left', 'get after unsubscribe')
+  assert.end()
+})
+
+test('combine', assert => {
+  const s1 = Store.init({a: 1})
+  const s2 = Store.init(10)
+  const sum = Store.combine([s1.at('a'), s2], (a, b) => [a, b], Eq.shallow)
+  const diffs = [] as number[][][]
+  sum.ondiff((now, old) => diffs.push([now, old]))
+  s2.set(20)
+  s1.at('a').set(2)
+  s1.set({a: 2})
+  assert.deepEqual(diffs, [[[1, 20], [1, 10]], [[2, 20], [1, 20]]], 'diffs from both roots')
+  assert.deepEqual(sum.get(), [2, 20], 'get')
+  assert.end()
+})
+
+test('derived stores default to the root equality', assert => {
+  const store = Store.init({a: {x: 1}, b: 2}, {eq: Eq.deep})
+  const a = store.derive(s => ({x: s.a.x}))
+  const both = Store.combine([a, store.at('b')], (a, b) => ({x: a.x, b: b > 0}))
+  const again = both.derive(s => ({x: s.x}))
+  const seen = [] as string[]
+  a.on(() => seen.push('a'))
+  both.on(() => seen.push('both'))
+  again.on(() => seen.push('again'))
+  store.at('b').set(3)
+  assert.deepEqual(seen, [], 'deep equal values')
+  store.at('b').set(-1)
+  assert.deepEqual(seen, ['both'], 'combined value changed')
+  store.at('a').set({x: 2})
+  assert.deepEqual(seen, ['both', 'a', 'both', 'again'], 'all changed')
+  assert.end()
+})
+
+test('transaction rollback', assert => {
+  const {store, after} = init({a: 1, b: 2}, assert)
+  assert.throws(() => store.transaction(() => {
+    store.at('a').set(3)
+    store.at('b').set(4)
+    throw new Error('oops')
+  }), /oops/, 'rethrown')
+  after('rollback', {a: 1, b: 2}, 0)
+  assert.deepEqual(store.get(), {a: 1, b: 2}, 'rolled back')
+  store.at('a').set(5)
+  after('listeners still run', {a: 5, b: 2})
+  store.transaction(() => {
+    store.at('a').set(6)
+    assert.throws(() => store.transaction(() => {
+      store.at('b').set(7)
+      throw new Error('inner')
+    }), /inner/, 'inner rethrown')
+    assert.deepEqual(store.get(), {a: 6, b: 2}, 'inner rolled back')
+    store.at('b').set(8)
+  })
+  after('savepoint', {a: 6, b: 8})
+  assert.throws(() => store.transaction(() => {
+    store.at('a').set(9)
+    store.transaction(() => {
+      store.at('b').set(10)
+    })
+    throw new Error('outer')
+  }), /outer/, 'outer rethrown')
+  after('rollback to outermost', {a: 6, b: 8}, 0)
+  assert.deepEqual(store.get(), {a: 6, b: 8}, 'rolled back to outermost')
+  assert.end()
+})
+
+test('listener errors', assert => {
+  const errors = [] as any[]
+  const store = Store.init({xs: [1, 2], y: 0}, {on_error: e => errors.push(e)})
+  const seen = [] as any[]
+  store.on(s => seen.push(s.y))
+  store.on(() => { throw 'first' })
+  const last = store.at('xs').via(L.index(1))
+  last.on(x => seen.push(x))
+  store.at('y').on(() => { throw 'second' })
+  store.on(s => seen.push(-s.y))
+  store.at('y').set(1)
+  assert.deepEqual(errors, ['first', 'second'], 'errors passed to handler')
+  assert.deepEqual(seen, [1, -1], 'other listeners run')
+  store.at('xs').set([3])
+  assert.deepEqual(errors, ['first', 'second', 'first', 'Out of bounds'], 'error from getting a value')
+  assert.deepEqual(seen, [1, -1, 1, -1], 'other listeners run')
+  assert.deepEqual(store.get(), {xs: [3], y: 1}, 'state set')
+  assert.end()
+})
+
+test('feedback loop', assert => {
+  const store = Store.init({hash: '', vis: 'all'}, {max_rounds: 20, on_error: e => assert.fail(e)})
+  const off = store.at('hash').on(function normalize(hash) {
+    store.at('vis').set(hash + '!')
+  })
+  store.at('vis').on(function sync(vis) {
+    store.at('hash').set(vis + '?')
+  })
+  let message = ''
+  try {
+    store.at('hash').set('a')
+  } catch (e) {
+    message = e.message
+  }
+  assert.ok(/20 rounds/.test(message), 'rounds')
+  assert.ok(/normalize \(on \.hash\)/.test(message), 'first listener')
+  assert.ok(/sync \(on \.vis\)/.test(message), 'second listener')
+  assert.ok(/"hash":"a!\?!\?/.test(message), 'states')
+  assert.throws(() => store.transaction(() => store.at('hash').set('b')), /Feedback loop/, 'thrown again')
+  off()
+  store.at('vis').set('d')
+  assert.is(store.get().hash, 'd?', 'works again without the loop')
+  assert.end()
+})
+
+test('no feedback loop', assert => {
+  const store = Store.init(0, {max_rounds: 5})
+  store.on(x => x < 5 && store.set(x + 1))
+  store.set(1)
+  assert.is(store.get(), 5, 'settles within the rounds')
+  assert.end()
+})
+
+test('manual scheduler', assert => {
+  const scheduler = Scheduler.manual()
+  const store = Store.init({a: 1, b: 1}, {scheduler})
+  const seen = [] as number[][]
+  store.on(s => seen.push([s.a, s.b]))
+  store.at('b').on(b => store.at('a').set(b * 10))
+  store.at('b').set(2)
+  store.at('b').set(3)
+  assert.deepEqual(seen, [], 'not notified before flush')
+  scheduler.flush()
+  assert.deepEqual(seen, [[1, 3], [30, 3]], 'one round, and the listener rounds right away')
+  store.transaction(() => store.at('b').set(4))
+  assert.deepEqual(seen, [[1, 3], [30, 3]], 'not notified after transaction')
+  store.transaction(() => {
+    store.flush()
+    assert.deepEqual(seen, [[1, 3], [30, 3]], 'flush does nothing in a transaction')
+  })
+  store.flush()
+  assert.deepEqual(seen, [[1, 3], [30, 3], [30, 4], [40, 4]], 'flushed by the store')
+  scheduler.flush()
+  assert.deepEqual(seen, [[1, 3], [30, 3], [30, 4], [40, 4]], 'nothing left to flush')
+  assert.end()
+})
+
+test('microtask scheduler', assert => {
+  const store = Store.init(1, {scheduler: Scheduler.microtask})
+  const seen = [] as number[]
+  store.on(x => seen.push(x))
+  store.set(2)
+  store.set(3)
+  assert.deepEqual(seen, [], 'not notified synchronously')
+  Promise.resolve().then(() => {
+    assert.deepEqual(seen, [3], 'notified once in a microtask')
+    assert.end()
+  })
+})
+
+test('path', assert => {
+  const store = Store.init({todos: [{text: 'a'}], extra: {} as Record<string, number>})
+  const s = store.get()
+  const todo = store.at('todos').via(L.index(0))
+  assert.deepEqual(store.path(), [], 'root')
+  assert.deepEqual(todo.at('text').path(), ['todos', 0, 'text'], 'at and index')
+  assert.deepEqual(store.via(L.seq(L.at<typeof s, 'extra'>('extra'), L.key('x'))).path(), ['extra', 'x'], 'seq and key')
+  assert.is(store.at('todos').via(L.iso(reverse, reverse)).via(L.index(0)).path(), undefined, 'iso')
+  assert.is(store.pick('todos').path(), undefined, 'pick')
+  assert.end()
+})
+
+test('listeners added before a scheduled notification', assert => {
+  const scheduler = Scheduler.manual()
+  const store = Store.init({a: 0, b: 0}, {scheduler})
+  store.at('a').set(1)
+  const seen = [] as string[]
+  store.at('a').on(a => seen.push('a ' + a))
+  store.at('b').on(b => seen.push('b ' + b))
+  scheduler.flush()
+  assert.deepEqual(seen, ['a 1'], 'notified of the pending change')
+  assert.end()
+})
+
+test('on_patch', assert => {
+  const store = Store.init({todos: [{text: 'a', done: false}], extra: {y: 1} as Record<string, number>})
+  const patches = [] as any[][]
+  const states = [store.get()]
+  store.on_patch(ops => patches.push(ops))
+  store.on(s => states.push(s))
+  const todos = store.at('todos')
+  todos.via(L.index(0)).update({text: 'b', done: true})
+  store.at('extra').transaction(() => {
+    store.at('extra').via(L.key('x')).set(2)
+    store.at('extra').via(L.key('y')).set(undefined)
+  })
+  Store.arr(todos, 'push')({text: 'c', done: false})
+  todos.via(L.iso(reverse, reverse)).via(L.index(0)).at('done').set(true)
+  store.set({todos: [], extra: {}})
+  assert.deepEqual(patches, [
+    [{op: 'replace', path: '/todos/0/text', value: 'b'},
+     {op: 'replace', path: '/todos/0/done', value: true}],
+    [{op: 'add', path: '/extra/x', value: 2},
+     {op: 'remove', path: '/extra/y'}],
+    [{op: 'replace', path: '/todos', value: [{text: 'b', done: true}, {text: 'c', done: false}]}],
+    [{op: 'replace', path: '/todos', value: [{text: 'b', done: true}, {text: 'c', done: true}]}],
+    [{op: 'replace', path: '', value: {todos: [], extra: {}}}]
+  ], 'patches')
+  patches.forEach((ops, i) => assert.deepEqual(Patch.apply(states[i], ops), states[i + 1], 'apply patch ' + i))
+  assert.throws(() => store.transaction(() => {
+    store.at('todos').set([{text: 'd', done: false}])
+    throw 'oops'
+  }))
+  store.at('extra').set({z: 3})
+  assert.deepEqual(patches[patches.length - 1], [{op: 'replace', path: '/extra', value: {z: 3}}], 'rolled back operations discarded')
+  assert.end()
+})
+
+test('on_patch in listener rounds', assert => {
+  const store = Store.init({a: 1, b: 1})
+  const patches = [] as any[][]
+  store.on_patch(ops => patches.push(ops))
+  store.at('a').on(a => store.at('b').set(a * 2))
+  store.at('a').set(2)
+  assert.deepEqual(patches, [
+    [{op: 'replace', path: '/a', value: 2}],
+    [{op: 'replace', path: '/b', value: 4}]
+  ], 'one patch per round')
+  assert.end()
+})
+
+test('Patch.apply', assert => {
+  const s = {a: [1, 2, 3], 'b/c': {'~': 1}}
+  assert.deepEqual(Patch.apply(s, [{op: 'add', path: '/a/1', value: 9}]), {a: [1, 9, 2, 3], 'b/c': {'~': 1}}, 'array add')
+  assert.deepEqual(Patch.apply(s, [{op: 'remove', path: '/a/0'}]), {a: [2, 3], 'b/c': {'~': 1}}, 'array remove')
+  assert.deepEqual(Patch.apply(s, [{op: 'replace', path: '/b~1c/~0', value: 2}]), {a: [1, 2, 3], 'b/c': {'~': 2}}, 'escaped')
+  assert.deepEqual(s, {a: [1, 2, 3], 'b/c': {'~': 1}}, 'not mutated')
+  assert.end()
+})
+
+test('labelled transactions', assert => {
+  const store = Store.init({a: 1, b: 1})
+  const changes = [] as any[]
+  store.on_change(c => changes.push(c))
+  store.transaction('outer', () => {
+    store.transaction('inner', () => store.at('a').set(2))
+    store.at('b').set(2)
+  })
+  store.transaction('nothing', () => store.at('a').set(2))
+  store.at('b').set(3)
+  try {
+    store.transaction('thrown', () => {
+      store.at('a').set(3)
+      throw 'oops'
+    })
+  } catch (e) {}
+  store.at('a').set(4)
+  assert.deepEqual(changes.map(c => c.label), ['outer', undefined, undefined], 'first label, no label without sets or after rollback')
+  assert.deepEqual(changes.map(c => [c.before, c.after]), [
+    [{a: 1, b: 1}, {a: 2, b: 2}],
+    [{a: 2, b: 2}, {a: 2, b: 3}],
+    [{a: 2, b: 3}, {a: 4, b: 3}]
+  ], 'before and after')
+  assert.end()
+})
+
+test('changes per transaction with a scheduler', assert => {
+  const scheduler = Scheduler.manual()
+  const store = Store.init({a: 1, b: 1}, {scheduler})
+  const changes = [] as any[]
+  const patches = [] as any[]
+  let notified = 0
+  store.on_change(c => changes.push(c))
+  store.on_patch(p => patches.push(p))
+  store.on(() => notified++)
+  store.transaction('first', () => store.at('a').set(2))
+  store.transaction('second', () => store.at('b').set(2))
+  store.at('a').set(3)
+  assert.deepEqual(changes, [], 'not yet')
+  scheduler.flush()
+  assert.is(notified, 1, 'one round')
+  assert.deepEqual(changes.map(c => c.label), ['first', 'second', undefined], 'labels kept apart')
+  assert.deepEqual(changes.map(c => [c.before, c.after]), [
+    [{a: 1, b: 1}, {a: 2, b: 1}],
+    [{a: 2, b: 1}, {a: 2, b: 2}],
+    [{a: 2, b: 2}, {a: 3, b: 2}]
+  ], 'before and after')
+  assert.deepEqual(patches, [
+    [{op: 'replace', path: '/a', value: 2}],
+    [{op: 'replace', path: '/b', value: 2}],
+    [{op: 'replace', path: '/a', value: 3}]
+  ], 'patches')
+  assert.end()
+})
+
+test('Recorder', assert => {
+  const store = Store.init({a: 1, b: 1})
+  const r = Recorder.record(store, {max: 3})
+  const set = (label: string, a: number) => store.transaction(label, () => store.at('a').set(a))
+  set('x', 2)
+  set('y', 3)
+  set('z', 4)
+  set('w', 5)
+  assert.deepEqual(r.entries().map(e => e.label), ['y', 'z', 'w'], 'bounded')
+  r.jump(0)
+  assert.deepEqual(store.get(), {a: 2, b: 1}, 'oldest kept state')
+  r.jump(2)
+  assert.deepEqual(store.get(), {a: 4, b: 1}, 'jumped')
+  assert.equal(r.entries().length, 3, 'jumps not recorded')
+  assert.throws(() => r.jump(4), 'out of bounds')
+  store.at('b').set(2)
+  assert.deepEqual(r.entries().map(e => e.label), ['y', 'z', undefined], 'future discarded')
+  r.jump(1)
+  r.replay(0)
+  assert.deepEqual(store.get(), {a: 4, b: 2}, 'replayed')
+  assert.deepEqual(r.entries().map(e => e.label), ['y', 'z', undefined], 'replay recorded')
+  const other = Store.init({a: 0, b: 0})
+  const r2 = Recorder.record(other)
+  r2.import_json(r.export_json())
+  assert.deepEqual(other.get(), {a: 4, b: 2}, 'imported')
+  r2.jump(1)
+  assert.deepEqual(other.get(), {a: 3, b: 1}, 'imported entries')
+  r2.stop()
+  other.at('a').set(9)
+  assert.equal(r2.position(), 1, 'stopped')
+  assert.end()
+})
+
+test('Recorder with a scheduler', assert => {
+  const scheduler = Scheduler.manual()
+  const store = Store.init({a: 1}, {scheduler})
+  const r = Recorder.record(store)
+  store.transaction('a', () => store.at('a').set(2))
+  scheduler.flush()
+  store.transaction('b', () => store.at('a').set(3))
+  r.jump(0)
+  scheduler.flush()
+  assert.deepEqual(r.entries().map(e => e.label), ['a', 'b'], 'pending change recorded')
+  assert.deepEqual([r.position(), store.get()], [0, {a: 1}], 'jumped')
+  assert.end()
+})
+
+test('devtools_connect', assert => {
+  const sent = [] as any[]
+  let dispatch = (message: DevtoolsMessage) => {}
+  const api = {
+    init: (state: any) => sent.push(['init', state]),
+    send: (action: any, state: any) => sent.push([action && action.type, state]),
+    subscribe: (k: (message: DevtoolsMessage) => void) => { dispatch = k }
+  }
+  const store = Store.init({a: 1, b: 1})
+  const off = Store.devtools_connect(store, api)
+  store.transaction('a', () => store.at('a').set(2))
+  store.at('b').set(2)
+  assert.deepEqual(sent, [['init', {a: 1, b: 1}], ['a', {a: 2, b: 1}], ['set', {a: 2, b: 2}]], 'sent')
+  dispatch({type: 'DISPATCH', state: JSON.stringify({a: 2, b: 1}), payload: {type: 'JUMP_TO_ACTION'}})
+  assert.deepEqual(store.get(), {a: 2, b: 1}, 'jumped')
+  assert.equal(sent.length, 3, 'jump not sent')
+  dispatch({type: 'DISPATCH', payload: {type: 'TOGGLE_ACTION', id: 1}})
+  assert.deepEqual(store.get(), {a: 1, b: 2}, 'toggled off')
+  const lifted = sent[sent.length - 1][1]
+  assert.deepEqual(lifted.skippedActionIds, [1], 'skipped')
+  assert.deepEqual(lifted.computedStates.map((c: any) => c.state), [{a: 1, b: 1}, {a: 1, b: 1}, {a: 1, b: 2}], 'computed states')
+  dispatch({type: 'DISPATCH', payload: {type: 'TOGGLE_ACTION', id: 1}})
+  assert.deepEqual(store.get(), {a: 2, b: 2}, 'toggled on')
+  const other = Store.init({a: 0, b: 0})
+  let other_dispatch = (message: DevtoolsMessage) => {}
+  Store.devtools_connect(other, {init: () => undefined, send: () => undefined, subscribe: k => { other_dispatch = k }})
+  other_dispatch({type: 'DISPATCH', payload: {type: 'IMPORT_STATE', nextLiftedState: lifted}})
+  assert.deepEqual(other.get(), {a: 1, b: 2}, 'imported')
+  other_dispatch({type: 'DISPATCH', payload: {type: 'TOGGLE_ACTION', id: 1}})
+  assert.deepEqual(other.get(), {a: 2, b: 2}, 'imported actions')
+  dispatch({type: 'DISPATCH', payload: {type: 'COMMIT'}})
+  assert.deepEqual(sent[sent.length - 1], ['init', {a: 2, b: 2}], 'committed')
+  off()
+  store.at('a').set(3)
+  assert.deepEqual(sent[sent.length - 1], ['init', {a: 2, b: 2}], 'disconnected')
+  assert.end()
+})
+
+test('devtools_connect with a scheduler', assert => {
+  const sent = [] as any[]
+  let dispatch = (message: DevtoolsMessage) => {}
+  const scheduler = Scheduler.manual()
+  const store = Store.init({a: 1}, {scheduler})
+  Store.devtools_connect(store, {
+    init: (state: any) => sent.push(['init', state]),
+    send: (action: any, state: any) => sent.push([action && action.type, state]),
+    subscribe: k => { dispatch = k }
+  })
+  store.transaction('increment', () => store.at('a').modify(a => a + 1))
+  dispatch({type: 'DISPATCH', state: JSON.stringify({a: 1}), payload: {type: 'JUMP_TO_STATE'}})
+  scheduler.flush()
+  assert.deepEqual(sent, [['init', {a: 1}], ['increment', {a: 2}]], 'pending change sent')
+  assert.deepEqual(store.get(), {a: 1}, 'jumped')
+  assert.end()
+})
+
+test('Undo.track', assert => {
+  const store = Store.init(Undo.init({a: 1, b: 1}))
+  const now = store.at('now')
+  let time = 0
+  const history = Undo.track(store, {coalesce: 100, max: 2, clock: () => time})
+  const can_undo = [] as boolean[]
+  history.can_undo.on(b => can_undo.push(b))
+  const past = () => {
+    const states = [] as any[]
+    for (let stack = store.get().prev; stack != null; stack = stack.pop) {
+      states.push(stack.top)
+    }
+    return states
+  }
+  store.transaction(() => {
+    now.at('a').set(2)
+    now.at('b').set(2)
+  })
+  assert.deepEqual(past(), [{a: 1, b: 1}], 'one entry for a transaction')
+  time = 50
+  now.at('a').set(3)
+  assert.deepEqual(past(), [{a: 1, b: 1}], 'coalesced')
+  time = 200
+  now.at('a').set(4)
+  time = 400
+  now.at('a').set(5)
+  assert.deepEqual(past(), [{a: 4, b: 2}, {a: 3, b: 2}], 'bounded')
+  history.undo()
+  history.undo()
+  history.undo()
+  assert.deepEqual(now.get(), {a: 3, b: 2}, 'undone')
+  assert.deepEqual(can_undo, [true, false], 'reactive can_undo')
+  history.redo()
+  store.modify(Undo.undo)
+  assert.deepEqual(now.get(), {a: 3, b: 2}, 'navigation not tracked')
+  time = 420
+  now.at('b').set(3)
+  assert.deepEqual(past(), [{a: 3, b: 2}], 'not coalesced after navigating')
+  assert.equal(store.get().next, null, 'future dropped')
+  history.stop()
+  now.at('b').set(4)
+  assert.deepEqual(past(), [{a: 3, b: 2}], 'stopped')
+  assert.end()
+})
+
+test('Undo.track with a scheduler', assert => {
+  const scheduler = Scheduler.manual()
+  const store = Store.init({history: Undo.init({a: 1, b: 1}), other: 0}, {scheduler})
+  const history = store.at('history')
+  Undo.track(history)
+  store.transaction(() => history.at('now').at('a').set(2))
+  store.at('other').set(1)
+  store.transaction(() => history.at('now').at('b').set(2))
+  scheduler.flush()
+  const past = [] as any[]
+  for (let stack = history.get().prev; stack != null; stack = stack.pop) {
+    past.push(stack.top)
+  }
+  assert.deepEqual(past, [{a: 2, b: 1}, {a: 1, b: 1}], 'one entry for each transaction')
+  assert.deepEqual(history.get().now, {a: 2, b: 2}, 'now')
+  assert.end()
+})
+
+test('UndoTree', assert => {
+  const T = UndoTree
+  let h = T.init('a', 0)
+  assert.ok(!T.can_undo(h) && !T.can_redo(h), 'nothing to undo or redo')
+  h = T.advance_to('b', 10)(h)
+  h = T.advance_to('c', 20)(h)
+  h = T.undo(T.undo(h))
+  h = T.advance_to('d', 30)(h)
+  h = T.undo(h)
+  assert.deepEqual(T.branches(h).map(node => node.state), ['b', 'd'], 'branches kept')
+  assert.ok(T.can_redo(h), 'can redo')
+  assert.equal(T.redo(h).now, 'd', 'redo newest')
+  assert.equal(T.redo(T.redo(h, 0)).now, 'c', 'redo along a branch')
+  const b = T.redo(h, 0)
+  assert.equal(T.redo(b, 5), b, 'redo missing branch')
+  assert.equal(T.undo(h), h, 'undo at the root')
+  assert.equal(T.jump(h, 2).now, 'c', 'jump by id')
+  assert.throws(() => T.jump(h, 9), 'out of bounds')
+  assert.equal(T.jump_to_time(h, 25).now, 'c', 'jump by time')
+  assert.equal(T.jump_to_time(h, 15).now, 'b', 'jump between times')
+  h = {...h, now: 'e'}
+  assert.ok(T.can_undo(h) && !T.can_redo(h), 'uncommitted present')
+  h = T.jump(h, 3)
+  assert.deepEqual(h.nodes.map(node => [node.state, node.parent]), [['a', null], ['b', 0], ['c', 1], ['d', 0], ['e', 0]], 'committed before jump')
+  const u = Undo.undo(Undo.advance_to(3)(Undo.advance_to(2)(Undo.init(1))))
+  const from = T.from_undo(u, 0)
+  assert.deepEqual(from.nodes.map(node => node.state), [1, 2, 3], 'from undo')
+  assert.equal(from.now, 2, 'from undo now')
+  assert.equal(T.redo(from).now, 3, 'from undo future')
+  assert.end()
+})
+
+test('Patch.diff', assert => {
+  const cases = [
+    [{a: [1, 2, 3], b: {c: 1}}, {a: [1], b: {c: 2, d: [1]}}],
+    [[1, {a: 2}], [{a: 2}, 1, 3]],
+    [{a: [1]}, {a: {0: 1}}],
+    [{a: null}, {a: {b: 1}}],
+    [1, 'one']
+  ]
+  cases.forEach(([a, b], i) => assert.deepEqual(Patch.apply(a, Patch.diff(a, b)), b, 'apply diff ' + i))
+  assert.deepEqual(Patch.diff({a: [1]}, {a: [1]}), [], 'no diff')
+  assert.end()
+})
+
+test('Undo.encode', assert => {
+  let h = Undo.init({big: [1, 2, 3], n: 0})
+  for (let i = 1; i <= 5000; i++) {
+    h = Undo.advance_to({big: h.now.big, n: i})(h)
+  }
+  h = Undo.undo(Undo.undo(h))
+  const e = Undo.encode(h)
+  assert.equal(e.deltas.length, 5000, 'flat')
+  assert.equal(e.now, 4998, 'now')
+  const d = Undo.decode<{big: number[], n: number}>(JSON.parse(JSON.stringify(e)))
+  assert.equal(d.now.n, 4998, 'decoded now')
+  assert.ok(d.next && d.next.pop && d.next.pop.top.n == 5000 && d.next.pop.pop == null, 'decoded future')
+  assert.ok(d.prev && d.prev.top.n == 4997 && d.prev.top.big === d.now.big, 'decoded past shares structure')
+  const saved = {} as Record<string, string>
+  const api = {get: (k: string) => saved[k] || null, set: (k: string, v: string) => { saved[k] = v }}
+  const store = Store.init(h)
+  store.storage_connect({api, codec: Undo.codec<{big: number[], n: number}>()})
+  store.modify(Undo.redo)
+  assert.ok(saved.state.length < 1000000, 'saved')
+  const reloaded = Store.init(Undo.init({big: [] as number[], n: -1}))
+  reloaded.storage_connect({api, codec: Undo.codec<{big: number[], n: number}>()})
+  assert.equal(reloaded.get().now.n, 4999, 'reloaded')
+  saved.n = '1'
+  const n = Store.init(0)
+  n.storage_connect('n', undefined, api)
+  assert.equal(n.get(), 1, 'positional arguments')
+  assert.end()
+})
+
+test('storage_connect versions', assert => {
+  const saved = {} as Record<string, string>
+  const api = {get: (k: string) => saved[k] || null, set: (k: string, v: string) => { saved[k] = v }}
+  const results = [] as any[]
+  const connect = (options: any) => {
+    const store = Store.init({name: '', age: 0})
+    store.storage_connect({api, version: 2, report: r => results.push(r), ...options})
+    return store
+  }
+  const migrations = {
+    0: (name: string) => ({name}),
+    1: (old: {name: string}) => ({...old, age: 1})
+  }
+  assert.deepEqual(connect({migrations}).get(), {name: '', age: 0}, 'empty')
+  saved.state = '"ada"'
+  assert.deepEqual(connect({migrations}).get(), {name: 'ada', age: 1}, 'migrated from no envelope')
+  const store = connect({})
+  assert.deepEqual(store.get(), {name: '', age: 0}, 'reset without migrations')
+  assert.deepEqual(JSON.parse(saved.state), {version: 2, data: {name: '', age: 0}}, 'saved over on reset')
+  store.at('age').set(3)
+  assert.deepEqual(connect({}).get(), {name: '', age: 3}, 'loaded')
+  saved.state = JSON.stringify({version: 3, data: {name: 'bob'}})
+  connect({fallback: 'keep'}).at('age').set(4)
+  assert.deepEqual(JSON.parse(saved.state), {version: 3, data: {name: 'bob'}}, 'kept')
+  assert.deepEqual(connect({fallback: (data: any) => ({...data, age: 5})}).get(), {name: 'bob', age: 5}, 'callback')
+  saved.state = '{"version": 0, "data": "eve"}'
+  connect({migrations: {...migrations, 0: () => { throw 'broken' }}})
+  saved.state = '{'
+  connect({})
+  saved.state = '{"version": 2, "data": {"name": "x"}}'
+  connect({audit: (s: any) => s.age !== undefined})
+  assert.deepEqual(results.map(r => r.status), [
+    'empty', 'migrated', 'fallback', 'loaded', 'fallback', 'fallback', 'invalid', 'invalid', 'rejected'
+  ], 'results')
+  assert.deepEqual(results[1], {status: 'migrated', from: 0, to: 2}, 'migrated result')
+  assert.deepEqual(results[4], {status: 'fallback', version: 3, fallback: 'keep'}, 'fallback result')
+  assert.equal(results[6].error, 'broken', 'migration error')
+  assert.end()
+})
+
+test('async_storage_connect', assert => {
+  const api = AsyncStorage.memory({state: '{"a": 1, "b": 1}'})
+  const writes = [] as string[]
+  const set = api.set
+  api.set = (key, str) => {
+    writes.push(str)
+    return set(key, str)
+  }
+  const timers = Timers.fake()
+  const store = Store.init({a: 0, b: 0})
+  const results = [] as any[]
+  const connection = store.async_storage_connect({api, debounce: 100, timers, report: r => results.push(r)})
+  const hydrating = [] as boolean[]
+  connection.hydrating.on(h => hydrating.push(h))
+  store.at('a').set(5)
+  connection.hydrated.then(result => {
+    assert.deepEqual(result, {status: 'loaded'}, 'result')
+    assert.deepEqual(results, [result], 'reported')
+    assert.deepEqual(hydrating, [false], 'hydrated')
+    assert.deepEqual(store.get(), {a: 1, b: 1}, 'loaded over changes while hydrating')
+    assert.deepEqual(writes, [], 'loaded state not saved')
+    store.at('a').set(2)
+    timers.advance(50)
+    store.at('b').set(2)
+    timers.advance(50)
+    assert.deepEqual(writes, [], 'debounced')
+    timers.advance(50)
+    store.at('a').set(3)
+    return connection.flush()
+  }).then(() => {
+    assert.deepEqual(writes, ['{"a":2,"b":2}', '{"a":3,"b":2}'], 'saved after debounce and flush')
+    timers.advance(100)
+    assert.equal(writes.length, 2, 'nothing left after flush')
+    connection.off()
+    store.at('a').set(4)
+    return connection.flush()
+  }).then(() => {
+    assert.equal(writes.length, 2, 'off')
+    assert.end()
+  })
+})
+
+test('async_storage_connect throttle and errors', assert => {
+  const timers = Timers.fake()
+  const writes = [] as string[]
+  const errors = [] as any[]
+  const api = {
+    get: () => Promise.resolve(null),
+    set: (key: string, str: string) => {
+      writes.push(str)
+      return str == '3' ? Promise.reject('full') : Promise.resolve()
+    }
+  }
+  const store = Store.init(0)
+  const connection = store.async_storage_connect({api, throttle: 100, timers, on_error: e => errors.push(e)})
+  connection.hydrated.then(result => {
+    assert.deepEqual(result, {status: 'empty'}, 'empty')
+    store.set(1)
+    store.set(2)
+    timers.advance(50)
+    store.set(3)
+    timers.advance(50)
+    store.set(4)
+    timers.advance(100)
+    return connection.flush()
+  }).then(() => {
+    assert.deepEqual(writes, ['1', '3', '4'], 'leading write, then throttled')
+    assert.deepEqual(errors, ['full'], 'errors')
+    assert.end()
+  })
+})
+
+test('AsyncStorage.files', assert => {
+  const files = {} as Record<string, string>
+  const fs = {
+    readFile(path: string, encoding: string, k: (error: any, data: string) => void) {
+      path in files ? k(null, files[path]) : k({code: 'ENOENT'}, '')
+    },
+    writeFile(path: string, data: string, k: (error: any) => void) {
+      path.indexOf('readonly') == -1 ? (files[path] = data, k(null)) : k({code: 'EACCES'})
+    }
+  }
+  const api = AsyncStorage.files(fs, '/data')
+  api.get('a/b').then(data => {
+    assert.equal(data, null, 'missing file')
+    return api.set('a/b', 'x')
+  }).then(() => {
+    assert.deepEqual(files, {'/data/a%2Fb.json': 'x'}, 'written')
+    return api.get('a/b')
+  }).then(data => {
+    assert.equal(data, 'x', 'read')
+    return AsyncStorage.files(fs, '/readonly').set('a', 'x')
+  }).catch(error => {
+    assert.deepEqual(error, {code: 'EACCES'}, 'write error')
+    assert.end()
+  })
+})
+
+test('sync_connect', assert => {
+  // channels which deliver when told to, to make concurrent changes
+  const queue = [] as (() => void)[]
+  const listeners = [] as ((message: SyncMessage) => void)[]
+  const channel = (): SyncChannel => ({
+    post: message => listeners.forEach(k => queue.push(() => k(message))),
+    on: k => {
+      listeners.push(k)
+      return () => listeners.splice(listeners.indexOf(k), 1)
+    }
+  })
+  const deliver = () => {
+    while (queue.length > 0) {
+      (queue.shift() as () => void)()
+    }
+  }
+  const a = Store.init({x: 0, y: 0})
+  const b = Store.init({x: 0, y: 0})
+  let posts = 0
+  const counted = channel()
+  const off_a = Store.sync_connect(a, {post: m => (posts++, counted.post(m)), on: counted.on}, {id: 'a'})
+  Store.sync_connect(b, channel(), {id: 'b'})
+  a.at('x').set(1)
+  b.at('y').set(2)
+  deliver()
+  assert.deepEqual([a.get(), b.get()], [{x: 0, y: 2}, {x: 0, y: 2}], 'newest wins, ties by id')
+  assert.equal(posts, 1, 'no echo')
+  b.at('x').set(3)
+  a.at('x').set(4)
+  b.at('y').set(5)
+  deliver()
+  assert.deepEqual([a.get(), b.get()], [{x: 3, y: 5}, {x: 3, y: 5}], 'converged')
+  off_a()
+  b.at('x').set(6)
+  deliver()
+  assert.deepEqual(a.get(), {x: 3, y: 5}, 'disconnected')
+  const written = [] as string[]
+  let storage_event = (key: string | null, data: string | null) => {}
+  const storage = SyncChannel.storage('sync', {
+    set: (key, data) => written.push(data),
+    listen: k => {
+      storage_event = k
+      return () => undefined
+    }
+  })
+  const c = Store.init({x: 0, y: 0})
+  Store.sync_connect(c, storage, {id: 'c', merge: 'patch'})
+  c.at('x').set(1)
+  assert.deepEqual(JSON.parse(written[0]), {from: 'c', time: 1, patch: [{op: 'replace', path: '/x', value: 1}]}, 'written')
+  storage_event('other', written[0])
+  storage_event('sync', JSON.stringify({from: 'd', time: 1, patch: [{op: 'replace', path: '/y', value: 2}]}))
+  assert.deepEqual(c.get(), {x: 1, y: 2}, 'patch from storage event')
+  assert.equal(written.length, 1, 'no echo to storage')
+  assert.end()
+})
+
+test('sync_connect sends the changes of listeners to received states', assert => {
+  for (const merge of ['patch', 'last_writer_wins'] as ('patch' | 'last_writer_wins')[]) {
+    const channels = SyncChannel.memory()
+    const a = Store.init({x: 0, y: 0})
+    const b = Store.init({x: 0, y: 0})
+    Store.sync_connect(a, channels(), {id: 'a', merge})
+    Store.sync_connect(b, channels(), {id: 'b', merge})
+    b.at('x').on(x => b.at('y').set(x * 10))
+    a.at('x').set(1)
+    assert.deepEqual([a.get(), b.get()], [{x: 1, y: 10}, {x: 1, y: 10}], merge + ': converged')
+  }
+  assert.end()
+})
+
+test('sync_connect with a scheduler', assert => {
+  for (const merge of ['patch', 'last_writer_wins'] as ('patch' | 'last_writer_wins')[]) {
+    const channels = SyncChannel.memory()
+    const scheduler = Scheduler.manual()
+    const a = Store.init({x: 0, y: 0}, {scheduler})
+    const b = Store.init({x: 0, y: 0})
+    Store.sync_connect(a, channels(), {id: 'z', merge})
+    Store.sync_connect(b, channels(), {id: 'b', merge})
+    a.at('x').set(1)
+    b.at('y').set(2)
+    scheduler.flush()
+    const expected = merge == 'patch' ? {x: 1, y: 2} : {x: 1, y: 0}
+    assert.deepEqual([a.get(), b.get()], [expected, expected], merge + ': pending local change sent')
+  }
+  assert.end()
+})
+
+test('storage_connect selective', assert => {
+  class Point {
+    constructor(public x: number, public y: number) {}
+    norm() { return Math.abs(this.x) + Math.abs(this.y) }
+  }
+  const saved = {} as Record<string, string>
+  const api = {get: (k: string) => saved[k] || null, set: (k: string, v: string) => { saved[k] = v }}
+  const serializers = [Serializer.map, Serializer.set, Serializer.instance('Point', Point)]
+  const init = () => ({
+    tags: new Set<string>(),
+    points: new Map<string, Point>(),
+    view: {page: 1, scroll: 0},
+    draft: ''
+  })
+  const store = Store.init(init())
+  store.storage_connect({api, serializers, include: [['tags'], ['points'], ['view', 'page']]})
+  store.update({
+    tags: new Set(['a', 'b']),
+    points: new Map([['p', new Point(1, 2)]]),
+    view: {page: 2, scroll: 100},
+    draft: 'hello'
+  })
+  assert.deepEqual(Object.keys(JSON.parse(saved.state)), ['tags', 'points', 'view'], 'included')
+  const reloaded = Store.init(init())
+  reloaded.storage_connect({api, serializers, include: [['tags'], ['points'], ['view', 'page']]})
+  const s = reloaded.get()
+  assert.ok(s.tags.has('b') && s.tags.size == 2, 'set')
+  const p = s.points.get('p')
+  assert.ok(p instanceof Point && p.norm() == 3, 'map of instances')
+  assert.deepEqual(s.view, {page: 2, scroll: 0}, 'merged')
+  assert.equal(s.draft, '', 'not included')
+  const replaced = Store.init(init())
+  replaced.storage_connect({api, serializers, include: [['view', 'page']], merge: false})
+  assert.deepEqual([replaced.get().view, replaced.get().draft], [{page: 2}, undefined], 'replaced without merge')
+  assert.end()
+})
+
+test('storage_connect fills excluded paths', assert => {
+  type State = {todos: {text: string, editing: boolean}[], input: string}
+  const saved = {} as Record<string, string>
+  const api = {get: (k: string) => saved[k] || null, set: (k: string, v: string) => { saved[k] = v }}
+  const paths = [] as Path[]
+  const options = {
+    api,
+    exclude: [['input'], ['todos', '*', 'editing']],
+    fill: (path: Path) => (paths.push(path), path[path.length - 1] == 'editing' ? false : undefined)
+  }
+  const store = Store.init<State>({todos: [], input: ''})
+  store.storage_connect(options)
+  store.set({todos: [{text: 'a', editing: true}, {text: 'b', editing: false}], input: 'c'})
+  const reloaded = Store.init<State>({todos: [], input: 'd'})
+  reloaded.storage_connect(options)
+  assert.deepEqual(reloaded.get(), {todos: [{text: 'a', editing: false}, {text: 'b', editing: false}], input: 'd'}, 'filled')
+  assert.deepEqual(paths, [['todos', 0, 'editing'], ['todos', 1, 'editing']], 'only missing paths')
+  assert.end()
+})
+
+test('Router', assert => {
+  type Routes = {home: {}, todo: {id: string}, filter: {filter: string}}
+  const table: Router.Table<Routes> = {home: '/', todo: '/todo/:id', filter: '/:filter'}
+  const lens = Router.lens(table)
+  assert.deepEqual(lens.get(''), {name: 'home', params: {}, query: {}}, 'empty is home')
+  assert.deepEqual(lens.get('/todo/3'), {name: 'todo', params: {id: '3'}, query: {}}, 'first match')
+  assert.deepEqual(lens.get('/all'), {name: 'filter', params: {filter: 'all'}, query: {}}, 'later match')
+  assert.equal(lens.get('/a/b/c'), undefined, 'no match')
+  assert.equal(lens.set('/a/b/c', undefined), '/a/b/c', 'set undefined')
+  const route = {name: 'todo' as 'todo', params: {id: 'a/b?'}, query: {'q r': 's&t'}}
+  assert.deepEqual(lens.get(lens.set('', route)), route, 'escaped round trip')
+  // a location with listeners that are added and removed
+  let location = '/todo/1'
+  const listeners = [] as (() => void)[]
+  const go = (url: string) => {
+    location = url
+    listeners.forEach(k => k())
+  }
+  const api = {
+    get: () => location,
+    set: (url: string) => { location = url },
+    on: (k: () => void) => {
+      listeners.push(k)
+      return () => listeners.splice(listeners.indexOf(k), 1)
+    }
+  }
+  const a = Store.init('')
+  const b = Store.init('')
+  const off_a = Router.connect(a, 'history', api)
+  Router.connect(b, 'history', api)
+  assert.deepEqual([a.get(), b.get()], ['/todo/1', '/todo/1'], 'loaded')
+  go('/all')
+  assert.deepEqual([a.get(), b.get()], ['/all', '/all'], 'both connections')
+  a.via(lens).set({name: 'home', params: {}, query: {}})
+  assert.equal(location, '/', 'set location')
+  off_a()
+  assert.equal(listeners.length, 1, 'listener removed')
+  go('/done')
+  assert.deepEqual([a.get(), b.get()], ['/', '/done'], 'disconnected')
+  const c = Store.init('')
+  Store.location_connect(c, () => true, {get: () => location, set: () => undefined, on: () => undefined})
+  assert.equal(c.get(), '/done', 'location api without unsubscribe')
+  assert.end()
+})
+
+test('Requests.process_requests', assert => {
+  const store = Store.init({requests: [] as number[], sum: 0})
+  const requests = store.at('requests')
+  let runs = 0
+  store.on(() => runs++)
+  const off = Requests.process_requests(requests, n => store.at('sum').modify(sum => sum + n))
+  store.transaction(() => {
+    Requests.request(requests, 1)
+    Requests.request(requests, 2)
+  })
+  assert.deepEqual(store.get(), {requests: [], sum: 3}, 'processed in order')
+  assert.equal(runs, 2, 'processed in the next round')
+  off()
+  Requests.request(requests, 4)
+  assert.deepEqual(store.get(), {requests: [4], sum: 3}, 'off')
+  assert.end()
+})
+
+test('Requests.run_effects', assert => {
+  type Request = {type: 'get', key: string} | {type: 'fail', key: string}
+  type State = {requests: Request[], values: {[key: string]: string}, errors: string[], pending: {[id: string]: boolean}}
+  const store = Store.init<State>({requests: [], values: {}, errors: [], pending: {}})
+  const requests = store.at('requests')
+  const resolvers = [] as {request: Request, resolve: (value: string) => void, reject: (error: any) => void, cancelled: () => boolean}[]
+  const runner = Requests.run_effects<Request, string>(requests, {
+    run: (request: Request, cancelled) => {
+      if (request.key == 'sync') {
+        throw 'thrown'
+      }
+      return new Promise<string>((resolve, reject) => resolvers.push({request, resolve, reject, cancelled}))
+    },
+    ok: (value, request) => store.at('values').modify(values => ({...values, [request.key]: value})),
+    error: (error, request) => store.at('errors').modify(errors => errors.concat([request.key + ': ' + error]))
+  }, {id: request => request.key, pending: store.at('pending')})
+  const request = (r: Request) => Requests.request(requests, r)
+  request({type: 'get', key: 'a'})
+  request({type: 'get', key: 'a'})
+  request({type: 'fail', key: 'b'})
+  request({type: 'get', key: 'c'})
+  request({type: 'get', key: 'sync'})
+  assert.equal(resolvers.length, 3, 'duplicate dropped')
+  assert.deepEqual(store.get().pending, {a: true, b: true, c: true, sync: true}, 'pending in the state')
+  runner.cancel('c')
+  assert.ok(resolvers[2].cancelled(), 'cancelled')
+  resolvers[0].resolve('A')
+  resolvers[1].reject('oops')
+  resolvers[2].resolve('C')
+  Promise.resolve().then(() => undefined).then(() => {
+    assert.deepEqual(store.get().values, {a: 'A'}, 'result in the store, cancelled ignored')
+    assert.deepEqual(store.get().errors, ['sync: thrown', 'b: oops'], 'errors in the store')
+    assert.deepEqual(store.get().pending, {}, 'nothing pending')
+    request({type: 'get', key: 'a'})
+    assert.equal(resolvers.length, 4, 'run again when not in flight')
+    runner.off()
+    assert.ok(resolvers[3].cancelled(), 'off cancels')
+    request({type: 'get', key: 'd'})
+    assert.equal(resolvers.length, 4, 'off')
+    const restarting = Store.init([] as string[])
+    const runs = [] as (() => boolean)[]
+    Requests.run_effects(restarting, {
+      run: (_: string, cancelled) => (runs.push(cancelled), new Promise<void>(() => undefined)),
+      ok: () => undefined
+    }, {duplicate: 'restart'})
+    Requests.request(restarting, 'x')
+    Requests.request(restarting, 'x')
+    assert.deepEqual(runs.map(cancelled => cancelled()), [true, false], 'restarted')
+    assert.end()
+  })
+})
+
+test('Requests.run_effects with a throwing handler', assert => {
+  type State = {requests: string[], values: string[], pending: {[id: string]: boolean}}
+  const store = Store.init<State>({requests: [], values: [], pending: {}})
+  const errors = [] as any[]
+  Requests.run_effects<string, string>(store.at('requests'), {
+    run: request => Promise.resolve(request.toUpperCase()),
+    ok: value => {
+      store.at('values').modify(values => values.concat([value]))
+      throw 'oops'
+    }
+  }, {id: request => request, pending: store.at('pending'), on_error: e => errors.push(e)})
+  Requests.request(store.at('requests'), 'a')
+  assert.deepEqual(store.get().pending, {a: true}, 'pending')
+  Promise.resolve().then(() => undefined).then(() => {
+    assert.deepEqual(errors, ['oops'], 'error handled')
+    assert.deepEqual(store.get(), {requests: [], values: [], pending: {}}, 'rolled back, not pending')
+    assert.end()
+  })
+})
+
+test('Testing.harness', assert => {
+  type State = {requests: string[], log: string[]}
+  const store = Store.init<State>({requests: [], log: []})
+  const requests = store.at('requests')
+  const log = (line: string) => store.at('log').modify(lines => lines.concat([line]))
+  const harness = Testing.harness(store, requests, {
+    ok: (result, request) => log(request + ' ok ' + result),
+    error: (error, request) => log(request + ' error ' + error)
+  })
+  store.transaction(() => {
+    Requests.request(requests, 'a')
+    Requests.request(requests, 'b')
+  })
+  harness.timers.advance(10)
+  Requests.request(requests, 'c')
+  assert.deepEqual(harness.requests().map(i => [i.request, i.time]), [['a', 0], ['b', 0], ['c', 10]], 'recorded in order with times')
+  const [a, b, c] = harness.requests()
+  c.resolve(3)
+  a.reject('oops')
+  assert.deepEqual(harness.pending().map(i => i.request), ['b'], 'pending')
+  assert.deepEqual([a.status(), b.status(), c.status()], ['rejected', 'pending', 'resolved'], 'status')
+  assert.throws(() => c.resolve(4), 'settled once')
+  assert.deepEqual(store.get().log, ['c ok 3', 'a error oops'], 'handlers in any order')
+  assert.deepEqual(harness.snapshots().map(s => [s.state.log.length, s.requests]), [
+    [0, ['a', 'b']],
+    [0, ['c']],
+    [1, []],
+    [2, []]
+  ], 'snapshots per transaction')
+  harness.off()
+  Requests.request(requests, 'd')
+  assert.deepEqual(store.get().requests, ['d'], 'off')
+  assert.equal(harness.snapshots().length, 4, 'no snapshots after off')
+  assert.end()
+})
+
+test('Subscriptions', assert => {
+  type Message = {type: 'tick', time: number} | {type: 'key', key: string}
+  type State = {keys: boolean, every: number, log: string[]}
+  const timers = Timers.fake()
+  const listeners = [] as ((e: {key: string}) => void)[]
+  const target = {
+    addEventListener: (_: string, k: (e: {key: string}) => void) => listeners.push(k),
+    removeEventListener: (_: string, k: (e: {key: string}) => void) => listeners.splice(listeners.indexOf(k), 1)
+  }
+  const store = Store.init<State>({keys: true, every: 100, log: []})
+  let starts = 0
+  const counted = <M>(sub: Sub<M>) => Subscriptions.sub<M>(sub.key, send => (starts++, sub.start(send)))
+  const off = Subscriptions.run<State, Message>(
+    store,
+    s => {
+      const tick = () => Subscriptions.map<number, Message>(counted(Subscriptions.every(s.every, timers)), time => ({type: 'tick', time}))
+      const key = Subscriptions.map<{key: string}, Message>(Subscriptions.event('keydown', target), e => ({type: 'key', key: e.key}))
+      return s.keys ? [tick(), tick(), key] : [tick(), tick()]
+    },
+    message => store.at('log').modify(log => log.concat([message.type == 'tick' ? 'tick ' + message.time : 'key ' + message.key])))
+  timers.advance(150)
+  listeners.forEach(k => k({key: 'a'}))
+  store.at('log').modify(log => log.concat(['unrelated']))
+  assert.equal(starts, 1, 'same key started once, and kept running')
+  store.at('every').set(200)
+  timers.advance(250)
+  assert.equal(starts, 2, 'restarted with a new key')
+  store.at('keys').set(false)
+  assert.equal(listeners.length, 0, 'event listener removed')
+  off()
+  timers.advance(1000)
+  assert.deepEqual(store.get().log, ['tick 100', 'key a', 'unrelated', 'tick 350'], 'messages')
+  assert.end()
+})
+
+test('async_transaction', assert => {
+  type State = {todos: string[], count: number, status: {pending: boolean, error?: any}}
+  const store = Store.init<State>({todos: [], count: 0, status: {pending: false}})
+  let fail = (error: any) => {}
+  const labels = [] as any[]
+  store.on_change(change => labels.push(change.label))
+  const t = store.async_transaction(ctx => {
+    ctx.optimistic(() => store.at('todos').set(['milk']))
+    return new Promise<void>((_, reject) => fail = reject).then(() => ctx.modify(s => s))
+  }, {label: 'add', status: store.at('status')})
+  assert.deepEqual(store.get(), {todos: ['milk'], count: 0, status: {pending: true}}, 'optimistic')
+  store.at('count').set(1)
+  const ok = store.async_transaction(ctx => {
+    ctx.optimistic(() => store.at('count').modify(n => n + 1))
+    return Promise.resolve('ok')
+  })
+  fail('offline')
+  Promise.all([t.done.catch(e => 'caught ' + e), ok.done]).then(results => {
+    assert.deepEqual(results, ['caught offline', 'ok'], 'done')
+    assert.deepEqual(store.get(), {todos: [], count: 2, status: {pending: false, error: 'offline'}}, 'own changes reverted, others kept')
+    assert.deepEqual(ok.status.get(), {pending: false}, 'status of success')
+    assert.deepEqual(labels, [undefined, 'add', undefined, undefined, 'add', undefined], 'labelled')
+    const thrown = store.async_transaction(ctx => {
+      ctx.set({...store.get(), count: 5})
+      throw 'sync'
+    })
+    return thrown.done.catch(e => e)
+  }).then(e => {
+    assert.equal(e, 'sync', 'synchronous throw')
+    assert.equal(store.get().count, 2, 'reverted after synchronous throw')
+    assert.end()
+  })
+})
+
+test('async_transaction with concurrent changes to the same array', assert => {
+  const store = Store.init({todos: [] as string[]})
+  let fail = (error: any) => {}
+  const t = store.async_transaction(ctx => {
+    ctx.optimistic(() => store.at('todos').modify(todos => todos.concat(['milk'])))
+    return new Promise<void>((_, reject) => fail = reject)
+  })
+  store.at('todos').modify(todos => todos.concat(['eggs']))
+  assert.deepEqual(store.get(), {todos: ['milk', 'eggs']}, 'both')
+  fail('offline')
+  t.done.catch(() => {
+    assert.deepEqual(store.get(), {todos: ['eggs']}, 'own change reverted, theirs kept')
+    assert.end()
+  })
+})
+
+test('async_transaction with a removal and a concurrent edit', assert => {
+  type Todo = {id: string, done: boolean}
+  const store = Store.init({todos: [{id: 'a', done: false}, {id: 'b', done: false}] as Todo[], n: 0})
+  let fail = (error: any) => {}
+  const t = store.async_transaction(ctx => {
+    ctx.optimistic(() => store.at('todos').modify(todos => todos.filter(todo => todo.id != 'a')))
+    ctx.optimistic(() => store.at('n').set(1))
+    return new Promise<void>((_, reject) => fail = reject)
+  })
+  store.at('todos').modify(todos => todos.map(todo => todo.id == 'b' ? {...todo, done: true} : todo))
+  store.at('todos').modify(todos => [{id: 'c', done: false}].concat(todos))
+  store.at('n').set(5)
+  store.at('n').set(1)
+  fail('offline')
+  t.done.catch(() => {
+    assert.deepEqual(store.get(), {todos: [{id: 'c', done: false}, {id: 'a', done: false}, {id: 'b', done: true}], n: 1}, 'edit kept on its element, newest write kept')
+    assert.end()
+  })
+})